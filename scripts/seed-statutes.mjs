@@ -0,0 +1,49 @@
+// Loads the bundled statute corpus (src/data/statutes/*.json) into the `statutes` table.
+// Usage: SUPABASE_URL=... SUPABASE_SERVICE_ROLE_KEY=... npm run seed:statutes
+import { readdir, readFile } from "node:fs/promises";
+import path from "node:path";
+import { fileURLToPath } from "node:url";
+import { createClient } from "@supabase/supabase-js";
+
+const corpusDir = path.resolve(path.dirname(fileURLToPath(import.meta.url)), "../src/data/statutes");
+
+const { SUPABASE_URL, SUPABASE_SERVICE_ROLE_KEY } = process.env;
+if (!SUPABASE_URL || !SUPABASE_SERVICE_ROLE_KEY) {
+  console.error("SUPABASE_URL and SUPABASE_SERVICE_ROLE_KEY must be set");
+  process.exit(1);
+}
+
+const supabase = createClient(SUPABASE_URL, SUPABASE_SERVICE_ROLE_KEY, {
+  auth: { persistSession: false },
+});
+
+// Must match statuteId() in src/lib/statutes.ts
+const statuteId = (code, number) => `${code}-${number.toLowerCase().replace(/[^a-z0-9]+/g, "-").replace(/-$/, "")}`;
+
+const files = (await readdir(corpusDir)).filter((file) => file.endsWith(".json"));
+const rows = [];
+
+for (const file of files) {
+  const act = JSON.parse(await readFile(path.join(corpusDir, file), "utf8"));
+  for (const section of act.sections) {
+    rows.push({
+      id: statuteId(act.code, section.number),
+      act: act.act,
+      act_short_name: act.short_name,
+      section_number: section.number,
+      title: section.title,
+      text: section.text,
+      effective_from: act.effective_from,
+      effective_to: act.effective_to,
+      corresponds_to: section.corresponds_to ?? [],
+    });
+  }
+}
+
+const { error } = await supabase.from("statutes").upsert(rows, { onConflict: "id" });
+if (error) {
+  console.error("Failed to seed statutes:", error.message);
+  process.exit(1);
+}
+
+console.log(`Seeded ${rows.length} sections from ${files.length} acts`);
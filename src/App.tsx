@@ -7,6 +7,11 @@ import Index from "./pages/Index";
 import Auth from "./pages/Auth";
 import Chat from "./pages/Chat";
 import Dashboard from "./pages/Dashboard";
+import Saved from "./pages/Saved";
+import Forms from "./pages/Forms";
+import FormDetail from "./pages/FormDetail";
+import NoticeDetail from "./pages/NoticeDetail";
+import SharedConversation from "./pages/SharedConversation";
 import NotFound from "./pages/NotFound";
 
 const queryClient = new QueryClient();
@@ -21,7 +26,13 @@ const App = () => (
           <Route path="/" element={<Index />} />
           <Route path="/auth" element={<Auth />} />
           <Route path="/chat" element={<Chat />} />
+          <Route path="/chat/:conversationId" element={<Chat />} />
           <Route path="/dashboard" element={<Dashboard />} />
+          <Route path="/saved" element={<Saved />} />
+          <Route path="/forms" element={<Forms />} />
+          <Route path="/forms/:slug" element={<FormDetail />} />
+          <Route path="/notices/:noticeId" element={<NoticeDetail />} />
+          <Route path="/share/:token" element={<SharedConversation />} />
           {/* ADD ALL CUSTOM ROUTES ABOVE THE CATCH-ALL "*" ROUTE */}
           <Route path="*" element={<NotFound />} />
         </Routes>
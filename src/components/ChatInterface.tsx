@@ -1,62 +1,243 @@
-import { useState, useRef, useEffect } from "react";
+import { useState, useRef, useEffect, useCallback, useMemo } from "react";
 import { Button } from "@/components/ui/button";
 import { Textarea } from "@/components/ui/textarea";
 import { Card } from "@/components/ui/card";
-import { Send, Loader2, Bookmark } from "lucide-react";
+import { Link } from "react-router-dom";
+import { Send, Loader2, Bookmark, Square, RefreshCw, Pencil, ChevronLeft, ChevronRight, SearchX, FileText } from "lucide-react";
 import { toast } from "sonner";
 import { supabase } from "@/integrations/supabase/client";
-
-interface Message {
-  role: 'user' | 'assistant';
-  content: string;
-}
+import RateLimitNotice from "@/components/RateLimitNotice";
+import LanguageSelect from "@/components/LanguageSelect";
+import StatuteSources from "@/components/StatuteSources";
+import CitationChips from "@/components/CitationChips";
+import MarkdownMessage from "@/components/MarkdownMessage";
+import ExportMenu from "@/components/ExportMenu";
+import ShareDialog from "@/components/ShareDialog";
+import SaveBookmarkDialog from "@/components/SaveBookmarkDialog";
+import { LegalChatError, RateLimitScope } from "@/lib/legal-chat/errors";
+import { streamLegalChat } from "@/lib/legal-chat/client";
+import type { SuggestionEvent } from "@/lib/legal-chat/protocol";
+import { defaultBookmarkTitle } from "@/lib/saved-items";
+import { buildBrief } from "@/lib/export/brief";
+import { BranchSelection, ChatNode, getActivePath, getSiblingInfo, ROOT_KEY, selectPathTo } from "@/lib/chat-tree";
+
+// Stream errors after which the server has not saved the assistant message.
+const UNSAVED_ANSWER_ERRORS = ['stream_interrupted', 'persistence_failed'];
 
 interface ChatInterfaceProps {
   conversationId?: string;
+  // Message to reveal (switching branches if needed), scroll to and highlight, e.g. a search hit
+  highlightMessageId?: string;
   onConversationCreated?: (id: string) => void;
+  onTitleGenerated?: (id: string, title: string) => void;
 }
 
-const ChatInterface = ({ conversationId, onConversationCreated }: ChatInterfaceProps) => {
-  const [messages, setMessages] = useState<Message[]>([]);
+const ChatInterface = ({ conversationId, highlightMessageId, onConversationCreated, onTitleGenerated }: ChatInterfaceProps) => {
+  const [nodes, setNodes] = useState<ChatNode[]>([]);
+  const [selection, setSelection] = useState<BranchSelection>({});
+  const [editing, setEditing] = useState<{ id: string; content: string } | null>(null);
   const [input, setInput] = useState("");
   const [isLoading, setIsLoading] = useState(false);
-  const [currentConvId, setCurrentConvId] = useState(conversationId);
+  const [currentConvId, setCurrentConvId] = useState<string | undefined>();
+  const [title, setTitle] = useState<string | null>(null);
+  const [notFound, setNotFound] = useState(false);
+  // Assistant message id -> saved_items id, for the bookmark toggle
+  const [bookmarks, setBookmarks] = useState<Record<string, string>>({});
+  const [bookmarkTarget, setBookmarkTarget] = useState<ChatNode | null>(null);
+  const [language, setLanguage] = useState<string | null>(null);
+  const [profileLanguage, setProfileLanguage] = useState<string | null>(null);
+  const [rateLimit, setRateLimit] = useState<{ retryAt: number; scope?: RateLimitScope } | null>(null);
   const messagesEndRef = useRef<HTMLDivElement>(null);
+  const highlightedRef = useRef<HTMLDivElement>(null);
+  // The answer being generated, which Stop cancels
+  const abortControllerRef = useRef<AbortController | null>(null);
+  // Every open stream, including finished answers still receiving follow-up events
+  const streamsRef = useRef(new Set<AbortController>());
+  // Mirrors currentConvId for the conversation switch effect, which only runs on prop changes
+  const currentConvIdRef = useRef<string | undefined>();
+  // The search hit whose branch has already been selected
+  const revealedHighlightRef = useRef<string | null>(null);
+
+  // The visible conversation: one variant per turn, following the user's branch choices.
+  const messages = useMemo(() => getActivePath(nodes, selection), [nodes, selection]);
 
   const scrollToBottom = () => {
     messagesEndRef.current?.scrollIntoView({ behavior: "smooth" });
   };
 
+  const highlightVisible = !!highlightMessageId && messages.some(message => message.id === highlightMessageId);
+
   useEffect(() => {
+    // Leave a search hit in view until the user starts a new turn.
+    if (highlightVisible && !isLoading) return;
     scrollToBottom();
-  }, [messages]);
+  }, [messages, highlightVisible, isLoading]);
 
+  // Switches to the hit's branch once, when it first loads; later branch choices stay the user's.
   useEffect(() => {
-    if (conversationId) {
-      loadConversation(conversationId);
+    if (!highlightMessageId || revealedHighlightRef.current === highlightMessageId) return;
+    if (!nodes.some(node => node.id === highlightMessageId)) return;
+    revealedHighlightRef.current = highlightMessageId;
+    setSelection(prev => selectPathTo(nodes, prev, highlightMessageId));
+  }, [highlightMessageId, nodes]);
+
+  useEffect(() => {
+    highlightedRef.current?.scrollIntoView({ behavior: "smooth", block: "center" });
+  }, [highlightMessageId, highlightVisible]);
+
+  const loadBookmarks = useCallback(async (messageIds: string[]) => {
+    if (messageIds.length === 0) return;
+
+    const { data, error } = await supabase
+      .from('saved_items')
+      .select('id, item_id')
+      .eq('item_type', 'chat')
+      .in('item_id', messageIds);
+
+    if (error) {
+      console.error('Error loading bookmarks:', error);
+      return;
     }
-  }, [conversationId]);
+    setBookmarks(Object.fromEntries(data.map(item => [item.item_id, item.id])));
+  }, []);
 
-  const loadConversation = async (convId: string) => {
+  const loadConversation = useCallback(async (convId: string) => {
     try {
-      const { data, error } = await supabase
-        .from('chat_messages')
-        .select('*')
-        .eq('conversation_id', convId)
-        .order('created_at', { ascending: true });
-
+      const [conversationResult, { data, error }] = await Promise.all([
+        supabase
+          .from('chat_conversations')
+          .select('language, title')
+          .eq('id', convId)
+          .maybeSingle(),
+        supabase
+          .from('chat_messages')
+          .select('*')
+          .eq('conversation_id', convId)
+          .order('created_at', { ascending: true }),
+      ]);
+
+      if (conversationResult.error) throw conversationResult.error;
       if (error) throw error;
 
+      // RLS returns nothing for conversations owned by someone else, same as a missing id.
+      if (!conversationResult.data) {
+        setNotFound(true);
+        return;
+      }
+
+      setLanguage(conversationResult.data.language ?? null);
+      setTitle(conversationResult.data.title);
+
       if (data) {
-        setMessages(data.map(msg => ({
+        setSelection({});
+        setNodes(data.map(msg => ({
+          id: msg.id,
+          parentId: msg.parent_id,
           role: msg.role as 'user' | 'assistant',
-          content: msg.content
+          content: msg.content,
+          createdAt: msg.created_at,
+          sources: msg.retrieved_sections,
+          truncated: msg.truncated,
+          suggestion: (msg.metadata as { suggestion?: SuggestionEvent } | null)?.suggestion,
         })));
+        loadBookmarks(data.filter(msg => msg.role === 'assistant').map(msg => msg.id));
       }
     } catch (error: any) {
       console.error('Error loading conversation:', error);
       toast.error('Failed to load conversation');
     }
+  }, [loadBookmarks]);
+
+  useEffect(() => {
+    // The parent navigates to the conversation we just created; that's not a switch.
+    if (conversationId && conversationId === currentConvIdRef.current) return;
+
+    streamsRef.current.forEach(controller => controller.abort());
+    revealedHighlightRef.current = null;
+    setNodes([]);
+    setSelection({});
+    setEditing(null);
+    setBookmarks({});
+    setLanguage(null);
+    setTitle(null);
+    setNotFound(false);
+    currentConvIdRef.current = conversationId;
+    setCurrentConvId(conversationId);
+
+    if (conversationId) {
+      loadConversation(conversationId);
+    }
+  }, [conversationId, loadConversation]);
+
+  useEffect(() => {
+    loadProfileLanguage();
+  }, []);
+
+  const loadProfileLanguage = async () => {
+    const { data: { user } } = await supabase.auth.getUser();
+    if (!user) return;
+
+    const { data, error } = await supabase
+      .from('profiles')
+      .select('preferred_language')
+      .eq('id', user.id)
+      .maybeSingle();
+
+    if (error) {
+      console.error('Error loading profile:', error);
+      return;
+    }
+    setProfileLanguage(data?.preferred_language ?? null);
+  };
+
+  const handleBookmark = async (message: ChatNode) => {
+    const savedId = bookmarks[message.id];
+    if (!savedId) {
+      setBookmarkTarget(message);
+      return;
+    }
+
+    const { error } = await supabase
+      .from('saved_items')
+      .delete()
+      .eq('id', savedId);
+
+    if (error) {
+      console.error('Error removing bookmark:', error);
+      toast.error('Failed to remove bookmark');
+      return;
+    }
+
+    setBookmarks(({ [message.id]: _removed, ...rest }) => rest);
+    toast.success('Bookmark removed');
+  };
+
+  const saveBookmark = async (title: string) => {
+    const message = bookmarkTarget;
+    const { data: { user } } = await supabase.auth.getUser();
+    if (!message || !user) return false;
+
+    const { data, error } = await supabase
+      .from('saved_items')
+      .insert({
+        user_id: user.id,
+        item_type: 'chat',
+        item_id: message.id,
+        title,
+        content: message.content,
+      })
+      .select('id')
+      .single();
+
+    if (error) {
+      console.error('Error saving bookmark:', error);
+      toast.error('Failed to save bookmark');
+      return false;
+    }
+
+    setBookmarks(prev => ({ ...prev, [message.id]: data.id }));
+    toast.success('Saved to your bookmarks');
+    return true;
   };
 
   const createConversation = async (firstMessage: string) => {
@@ -70,121 +251,221 @@ const ChatInterface = ({ conversationId, onConversationCreated }: ChatInterfaceP
       .from('chat_conversations')
       .insert({
         user_id: user.id,
-        title: firstMessage.substring(0, 50) + (firstMessage.length > 50 ? '...' : '')
+        title: firstMessage.substring(0, 50) + (firstMessage.length > 50 ? '...' : ''),
+        language,
       })
       .select()
       .single();
 
     if (error) {
       console.error('Error creating conversation:', error);
+      toast.error('Failed to start a new conversation');
       return null;
     }
 
+    currentConvIdRef.current = data.id;
     setCurrentConvId(data.id);
+    setTitle(data.title);
     if (onConversationCreated) {
       onConversationCreated(data.id);
     }
     return data.id;
   };
 
-  const saveMessage = async (convId: string, role: 'user' | 'assistant', content: string) => {
+  const handleLanguageChange = async (next: string | null) => {
+    setLanguage(next);
+    if (!currentConvId) return;
+
     const { error } = await supabase
-      .from('chat_messages')
-      .insert({
-        conversation_id: convId,
-        role,
-        content
-      });
+      .from('chat_conversations')
+      .update({ language: next })
+      .eq('id', currentConvId);
 
     if (error) {
-      console.error('Error saving message:', error);
+      console.error('Error updating conversation language:', error);
+      toast.error('Failed to change language');
     }
   };
 
-  const handleSend = async () => {
-    if (!input.trim() || isLoading) return;
+  const clearRateLimit = useCallback(() => setRateLimit(null), []);
 
-    const userMessage = input.trim();
-    setInput("");
-    
-    const newMessages: Message[] = [...messages, { role: 'user', content: userMessage }];
-    setMessages(newMessages);
+  const upsertNode = (node: ChatNode) => {
+    setNodes(prev => [...prev.filter(existing => existing.id !== node.id), node]);
+  };
+
+  const removeNode = (id: string) => {
+    setNodes(prev => prev.filter(node => node.id !== id));
+  };
+
+  // Streams an answer to `userNode`, the last entry of `history`. With `regenerate` the
+  // user turn already exists server-side and only a new assistant variant is added.
+  // Returns false when nothing was saved: the request was rate limited or the conversation
+  // couldn't be created.
+  const runTurn = async (history: ChatNode[], userNode: ChatNode, regenerate: boolean) => {
     setIsLoading(true);
+    // A failed answer is only kept on screen until the next turn starts.
+    setNodes(prev => prev.filter(node => !node.unsaved));
+
+    const abortController = new AbortController();
+    abortControllerRef.current = abortController;
+    streamsRef.current.add(abortController);
+    // Set by the server's `done`: the answer is final even if the stream is cancelled afterwards
+    let answered = false;
+    const assistantNode: ChatNode = {
+      id: crypto.randomUUID(),
+      parentId: userNode.id,
+      role: 'assistant',
+      content: '',
+      createdAt: new Date().toISOString(),
+      sources: [],
+    };
+
+    // Lets the user send again while title and suggestion events are still on their way.
+    const finishAnswer = () => {
+      if (abortControllerRef.current !== abortController) return;
+      abortControllerRef.current = null;
+      setIsLoading(false);
+    };
+
+    const showAssistant = (update: Partial<ChatNode>) => {
+      Object.assign(assistantNode, update);
+      upsertNode({ ...assistantNode });
+      setSelection(prev => ({ ...prev, [userNode.id]: assistantNode.id }));
+    };
 
     try {
-      let convId = currentConvId;
-      if (!convId) {
-        convId = await createConversation(userMessage);
+      const { data: { session } } = await supabase.auth.getSession();
+      if (!session) {
+        throw new Error('Please sign in to chat');
       }
 
-      if (convId) {
-        await saveMessage(convId, 'user', userMessage);
+      let convId = currentConvId;
+      if (!convId) {
+        convId = await createConversation(userNode.content);
+        // Without a conversation nothing would be saved and the next turn would have no parent.
+        if (!convId) return false;
       }
 
-      const response = await fetch(`${import.meta.env.VITE_SUPABASE_URL}/functions/v1/legal-chat`, {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-          'Authorization': `Bearer ${import.meta.env.VITE_SUPABASE_PUBLISHABLE_KEY}`,
-        },
-        body: JSON.stringify({
-          messages: newMessages
-        }),
+      const events = streamLegalChat({
+        accessToken: session.access_token,
+        messages: history.map(({ id, role, content }) => ({ id, role, content })),
+        conversationId: convId,
+        userMessageId: userNode.id,
+        assistantMessageId: assistantNode.id,
+        parentId: userNode.parentId,
+        regenerate,
+        signal: abortController.signal,
       });
 
-      if (!response.ok || !response.body) {
-        throw new Error('Failed to get response');
-      }
-
-      const reader = response.body.getReader();
-      const decoder = new TextDecoder();
-      let assistantMessage = '';
-      let textBuffer = '';
-
-      while (true) {
-        const { done, value } = await reader.read();
-        if (done) break;
-        
-        textBuffer += decoder.decode(value, { stream: true });
-        
-        let newlineIndex: number;
-        while ((newlineIndex = textBuffer.indexOf("\n")) !== -1) {
-          let line = textBuffer.slice(0, newlineIndex);
-          textBuffer = textBuffer.slice(newlineIndex + 1);
-
-          if (line.endsWith("\r")) line = line.slice(0, -1);
-          if (line.startsWith(":") || line.trim() === "") continue;
-          if (!line.startsWith("data: ")) continue;
-
-          const jsonStr = line.slice(6).trim();
-          if (jsonStr === "[DONE]") break;
-
-          try {
-            const parsed = JSON.parse(jsonStr);
-            const content = parsed.choices?.[0]?.delta?.content as string | undefined;
-            if (content) {
-              assistantMessage += content;
-              setMessages([...newMessages, { role: 'assistant', content: assistantMessage }]);
-            }
-          } catch {
-            textBuffer = line + "\n" + textBuffer;
-            break;
+      for await (const event of events) {
+        if (event.type === 'done') {
+          answered = true;
+          finishAnswer();
+        } else if (event.type === 'token') {
+          showAssistant({ content: assistantNode.content + event.text });
+        } else if (event.type === 'citation') {
+          assistantNode.sources = [...(assistantNode.sources ?? []), event.sectionId];
+        } else if (event.type === 'suggestion') {
+          showAssistant({ suggestion: event });
+        } else if (event.type === 'title') {
+          setTitle(event.title);
+          if (convId) onTitleGenerated?.(convId, event.title);
+        } else if (event.type === 'error') {
+          toast.error(event.message);
+          // The server didn't store this answer, so later turns must not reply to it.
+          if (UNSAVED_ANSWER_ERRORS.includes(event.code)) {
+            if (assistantNode.content) showAssistant({ unsaved: true });
+            else removeNode(assistantNode.id);
           }
         }
       }
-
-      if (convId && assistantMessage) {
-        await saveMessage(convId, 'assistant', assistantMessage);
-      }
-
+      return true;
     } catch (error: any) {
+      if (abortController.signal.aborted) {
+        // Stopped by the user: keep what was generated so far. The server saves it as truncated too.
+        if (!answered && assistantNode.content) {
+          showAssistant({ truncated: true });
+        }
+        return true;
+      }
+      if (error instanceof LegalChatError && error.code === 'rate_limited' && error.retryAfter) {
+        setRateLimit({ retryAt: Date.now() + error.retryAfter * 1000, scope: error.scope });
+        return false;
+      }
       console.error('Chat error:', error);
       toast.error(error.message || 'Failed to get response');
+      return true;
     } finally {
-      setIsLoading(false);
+      streamsRef.current.delete(abortController);
+      finishAnswer();
     }
   };
 
+  // Adds a user turn under `parentId` (a new sibling when that parent already has replies).
+  const sendUserTurn = async (history: ChatNode[], parentId: string | null, content: string) => {
+    const userNode: ChatNode = {
+      id: crypto.randomUUID(),
+      parentId,
+      role: 'user',
+      content,
+      createdAt: new Date().toISOString(),
+    };
+    upsertNode(userNode);
+    setSelection(prev => ({ ...prev, [parentId ?? ROOT_KEY]: userNode.id }));
+
+    const sent = await runTurn([...history, userNode], userNode, false);
+    if (!sent) removeNode(userNode.id);
+    return sent;
+  };
+
+  const handleSend = async () => {
+    if (!input.trim() || isLoading || rateLimit) return;
+
+    const userMessage = input.trim();
+    setInput("");
+
+    const history = messages.filter(message => !message.unsaved);
+    const parent = history[history.length - 1];
+    const sent = await sendUserTurn(history, parent?.id ?? null, userMessage);
+    if (!sent) setInput(userMessage);
+  };
+
+  const handleEditSubmit = async () => {
+    if (!editing || !editing.content.trim() || isLoading || rateLimit) return;
+
+    const index = messages.findIndex(message => message.id === editing.id);
+    if (index === -1) return;
+
+    const { content } = editing;
+    setEditing(null);
+    const sent = await sendUserTurn(messages.slice(0, index), messages[index].parentId, content.trim());
+    if (!sent) setEditing({ id: messages[index].id, content });
+  };
+
+  const handleRegenerate = async (assistantIndex: number) => {
+    if (isLoading || rateLimit) return;
+
+    const history = messages.slice(0, assistantIndex);
+    const userNode = history[history.length - 1];
+    if (userNode?.role !== 'user') return;
+
+    await runTurn(history, userNode, true);
+  };
+
+  // Answers are titled after the question they respond to, which is what people remember.
+  const bookmarkTitleFor = (message: ChatNode) => {
+    const question = nodes.find(node => node.id === message.parentId);
+    return defaultBookmarkTitle(question?.content ?? message.content);
+  };
+
+  const showVariant = (id: string) => {
+    setSelection(prev => selectPathTo(nodes, prev, id));
+  };
+
+  const handleStop = () => {
+    abortControllerRef.current?.abort();
+  };
+
   const handleKeyPress = (e: React.KeyboardEvent) => {
     if (e.key === 'Enter' && !e.shiftKey) {
       e.preventDefault();
@@ -192,8 +473,35 @@ const ChatInterface = ({ conversationId, onConversationCreated }: ChatInterfaceP
     }
   };
 
+  if (notFound) {
+    return (
+      <div className="flex h-full flex-col items-center justify-center gap-3 p-8 text-center">
+        <SearchX className="h-10 w-10 text-muted-foreground" />
+        <p className="text-lg font-medium">Conversation not found</p>
+        <p className="text-sm text-muted-foreground">It may have been deleted, or it belongs to another account.</p>
+        <Link to="/chat">
+          <Button>Start a new chat</Button>
+        </Link>
+      </div>
+    );
+  }
+
   return (
     <div className="flex flex-col h-full">
+      <div className="border-b bg-card px-4 py-2 flex justify-end gap-2">
+        <ExportMenu
+          getBrief={() => buildBrief({ title: title ?? 'Legal conversation', conversationId: currentConvId ?? null, messages })}
+          disabled={messages.length === 0 || isLoading}
+        />
+        <ShareDialog conversationId={currentConvId} disabled={messages.length === 0} />
+        <LanguageSelect
+          value={language}
+          profileLanguage={profileLanguage}
+          onChange={handleLanguageChange}
+          disabled={isLoading}
+        />
+      </div>
+
       <div className="flex-1 overflow-y-auto p-4 space-y-4">
         {messages.length === 0 && (
           <div className="text-center text-muted-foreground py-12">
@@ -202,18 +510,137 @@ const ChatInterface = ({ conversationId, onConversationCreated }: ChatInterfaceP
           </div>
         )}
         
-        {messages.map((message, index) => (
-          <Card
-            key={index}
-            className={`p-4 ${
-              message.role === 'user'
-                ? 'bg-primary text-primary-foreground ml-auto max-w-[80%]'
-                : 'bg-card max-w-[80%]'
-            }`}
-          >
-            <p className="whitespace-pre-wrap">{message.content}</p>
-          </Card>
-        ))}
+        {messages.map((message, index) => {
+          const variants = getSiblingInfo(nodes, message);
+          const isUser = message.role === 'user';
+          const isLastAnswer = !isUser && index === messages.length - 1;
+          // Only persisted answers can be bookmarked; the one still streaming isn't saved yet.
+          const canBookmark = !isUser && !!currentConvId && !message.unsaved && !(isLoading && isLastAnswer);
+
+          return (
+            <Card
+              key={message.id}
+              ref={message.id === highlightMessageId ? highlightedRef : undefined}
+              className={`p-4 ${
+                isUser
+                  ? 'bg-primary text-primary-foreground ml-auto max-w-[80%]'
+                  : 'bg-card max-w-[80%]'
+              } ${message.id === highlightMessageId ? 'ring-2 ring-warning ring-offset-2' : ''}`}
+            >
+              {editing?.id === message.id ? (
+                <div className="space-y-2">
+                  <Textarea
+                    value={editing.content}
+                    onChange={(e) => setEditing({ id: message.id, content: e.target.value })}
+                    className="min-h-[60px] bg-background text-foreground"
+                    autoFocus
+                  />
+                  <div className="flex justify-end gap-2">
+                    <Button size="sm" variant="secondary" onClick={() => setEditing(null)}>
+                      Cancel
+                    </Button>
+                    <Button
+                      size="sm"
+                      variant="secondary"
+                      onClick={handleEditSubmit}
+                      disabled={!editing.content.trim() || isLoading || !!rateLimit}
+                    >
+                      Send
+                    </Button>
+                  </div>
+                </div>
+              ) : isUser ? (
+                <p className="whitespace-pre-wrap">{message.content}</p>
+              ) : (
+                <MarkdownMessage content={message.content} />
+              )}
+              {message.truncated && (
+                <p className="mt-2 text-xs italic text-muted-foreground">Response stopped before it finished.</p>
+              )}
+              {message.unsaved && (
+                <p className="mt-2 text-xs italic text-muted-foreground">This answer wasn't saved. Regenerate it or ask again.</p>
+              )}
+              {!isUser && <CitationChips content={message.content} />}
+              {!isUser && message.sources && (
+                <StatuteSources sectionIds={message.sources} />
+              )}
+              {!isUser && message.suggestion && (
+                <Button asChild variant="outline" size="sm" className="mt-3 gap-2">
+                  <Link to={`/forms/${message.suggestion.templateId}`} state={{ prefill: message.suggestion.fields }}>
+                    <FileText className="h-4 w-4" />
+                    Fill this form: {message.suggestion.label}
+                  </Link>
+                </Button>
+              )}
+
+              {(variants.count > 1 || isUser || isLastAnswer || canBookmark) && editing?.id !== message.id && (
+                <div className={`mt-2 flex items-center gap-1 text-xs ${isUser ? 'justify-end' : ''}`}>
+                  {variants.count > 1 && (
+                    <>
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        className="h-6 w-6"
+                        onClick={() => showVariant(variants.siblings[variants.index - 1].id)}
+                        disabled={variants.index === 0 || isLoading}
+                        aria-label="Previous version"
+                      >
+                        <ChevronLeft className="h-4 w-4" />
+                      </Button>
+                      <span className="tabular-nums">{variants.index + 1}/{variants.count}</span>
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        className="h-6 w-6"
+                        onClick={() => showVariant(variants.siblings[variants.index + 1].id)}
+                        disabled={variants.index === variants.count - 1 || isLoading}
+                        aria-label="Next version"
+                      >
+                        <ChevronRight className="h-4 w-4" />
+                      </Button>
+                    </>
+                  )}
+                  {isUser && (
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      className="h-6 w-6"
+                      onClick={() => setEditing({ id: message.id, content: message.content })}
+                      disabled={isLoading}
+                      aria-label="Edit message"
+                    >
+                      <Pencil className="h-3.5 w-3.5" />
+                    </Button>
+                  )}
+                  {canBookmark && (
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      className="h-6 w-6"
+                      onClick={() => handleBookmark(message)}
+                      aria-label={bookmarks[message.id] ? 'Remove bookmark' : 'Bookmark answer'}
+                      aria-pressed={!!bookmarks[message.id]}
+                    >
+                      <Bookmark className={`h-3.5 w-3.5 ${bookmarks[message.id] ? 'fill-current text-primary' : ''}`} />
+                    </Button>
+                  )}
+                  {isLastAnswer && (
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      className="h-6 w-6"
+                      onClick={() => handleRegenerate(index)}
+                      disabled={isLoading || !!rateLimit}
+                      aria-label="Regenerate response"
+                    >
+                      <RefreshCw className="h-3.5 w-3.5" />
+                    </Button>
+                  )}
+                </div>
+              )}
+            </Card>
+          );
+        })}
         
         {isLoading && (
           <Card className="p-4 max-w-[80%] bg-card">
@@ -227,7 +654,17 @@ const ChatInterface = ({ conversationId, onConversationCreated }: ChatInterfaceP
         <div ref={messagesEndRef} />
       </div>
 
+      <SaveBookmarkDialog
+        open={!!bookmarkTarget}
+        defaultTitle={bookmarkTarget ? bookmarkTitleFor(bookmarkTarget) : ''}
+        onOpenChange={(open) => !open && setBookmarkTarget(null)}
+        onSave={saveBookmark}
+      />
+
       <div className="border-t bg-card p-4">
+        {rateLimit && (
+          <RateLimitNotice retryAt={rateLimit.retryAt} scope={rateLimit.scope} onExpire={clearRateLimit} />
+        )}
         <div className="flex gap-2">
           <Textarea
             value={input}
@@ -235,16 +672,27 @@ const ChatInterface = ({ conversationId, onConversationCreated }: ChatInterfaceP
             onKeyPress={handleKeyPress}
             placeholder="Ask about your legal rights, processes, or get guidance..."
             className="min-h-[60px] resize-none"
-            disabled={isLoading}
           />
-          <Button
-            onClick={handleSend}
-            disabled={!input.trim() || isLoading}
-            size="lg"
-            className="px-6"
-          >
-            {isLoading ? <Loader2 className="h-5 w-5 animate-spin" /> : <Send className="h-5 w-5" />}
-          </Button>
+          {isLoading ? (
+            <Button
+              onClick={handleStop}
+              variant="outline"
+              size="lg"
+              className="px-6"
+              aria-label="Stop generating"
+            >
+              <Square className="h-5 w-5 fill-current" />
+            </Button>
+          ) : (
+            <Button
+              onClick={handleSend}
+              disabled={!input.trim() || !!rateLimit}
+              size="lg"
+              className="px-6"
+            >
+              <Send className="h-5 w-5" />
+            </Button>
+          )}
         </div>
       </div>
     </div>
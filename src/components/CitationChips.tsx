@@ -0,0 +1,84 @@
+import { useMemo } from "react";
+import { AlertTriangle, CheckCircle2 } from "lucide-react";
+import { Badge } from "@/components/ui/badge";
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
+import { Tooltip, TooltipContent, TooltipTrigger } from "@/components/ui/tooltip";
+import { Citation, extractCitations } from "@/lib/citations";
+import { formatStatuteLabel, getStatute } from "@/lib/statutes";
+
+interface CitationChipsProps {
+  content: string;
+}
+
+const VerifiedChip = ({ citation }: { citation: Citation }) => {
+  const section = citation.section!;
+  const replacements = section.correspondsTo.map(getStatute).filter(Boolean);
+
+  return (
+    <Popover>
+      <PopoverTrigger asChild>
+        <button type="button" className="rounded-full focus:outline-none focus:ring-2 focus:ring-ring">
+          <Badge variant="secondary" className="cursor-pointer gap-1 font-normal">
+            <CheckCircle2 className="h-3 w-3" />
+            {formatStatuteLabel(section)}
+          </Badge>
+        </button>
+      </PopoverTrigger>
+      <PopoverContent className="w-96 max-h-80 overflow-y-auto text-sm">
+        <p className="text-xs text-muted-foreground">{section.act}</p>
+        <h4 className="font-semibold mb-2">
+          Section {section.sectionNumber}: {section.title}
+        </h4>
+        {section.effectiveTo && (
+          <p className="text-xs text-destructive mb-2">
+            Repealed — in force until {new Date(section.effectiveTo).toLocaleDateString()}
+          </p>
+        )}
+        <p className="leading-relaxed">{section.text}</p>
+        {replacements.length > 0 && (
+          <p className="mt-2 text-xs text-muted-foreground">
+            Corresponds to {replacements.map((replacement) => formatStatuteLabel(replacement)).join(", ")}
+          </p>
+        )}
+      </PopoverContent>
+    </Popover>
+  );
+};
+
+const UnverifiedChip = ({ citation }: { citation: Citation }) => (
+  <Tooltip>
+    <TooltipTrigger asChild>
+      <Badge variant="outline" className="gap-1 font-normal border-amber-500/60 text-amber-700 dark:text-amber-400">
+        <AlertTriangle className="h-3 w-3" />
+        {citation.actName} s. {citation.sectionNumber}
+      </Badge>
+    </TooltipTrigger>
+    <TooltipContent className="max-w-xs">
+      {citation.act
+        ? `We couldn't find Section ${citation.sectionNumber} of the ${citation.act.act} in our statute index. Double-check it before relying on it.`
+        : `This Act isn't in our statute index yet, so this citation couldn't be verified.`}
+    </TooltipContent>
+  </Tooltip>
+);
+
+// Act/section references detected in an assistant answer, verified against the local statute index.
+const CitationChips = ({ content }: CitationChipsProps) => {
+  const citations = useMemo(() => extractCitations(content), [content]);
+  if (citations.length === 0) return null;
+
+  return (
+    <div className="mt-3 flex flex-wrap items-center gap-1.5">
+      <span className="text-xs text-muted-foreground">Cited:</span>
+      {citations.map((citation) => {
+        const key = `${citation.actName}-${citation.sectionNumber}`;
+        return citation.section ? (
+          <VerifiedChip key={key} citation={citation} />
+        ) : (
+          <UnverifiedChip key={key} citation={citation} />
+        );
+      })}
+    </div>
+  );
+};
+
+export default CitationChips;
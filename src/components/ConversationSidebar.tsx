@@ -0,0 +1,312 @@
+import { useCallback, useEffect, useRef, useState } from "react";
+import { Link, useNavigate } from "react-router-dom";
+import { MoreHorizontal, Pencil, Plus, Trash2 } from "lucide-react";
+import { toast } from "sonner";
+import { supabase } from "@/integrations/supabase/client";
+import { Button } from "@/components/ui/button";
+import {
+  Sidebar,
+  SidebarContent,
+  SidebarGroup,
+  SidebarGroupContent,
+  SidebarGroupLabel,
+  SidebarHeader,
+  SidebarInput,
+  SidebarMenu,
+  SidebarMenuAction,
+  SidebarMenuButton,
+  SidebarMenuItem,
+  SidebarMenuSkeleton,
+} from "@/components/ui/sidebar";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+
+interface ConversationSummary {
+  id: string;
+  title: string;
+  updated_at: string;
+}
+
+interface ConversationSidebarProps {
+  activeConversationId?: string;
+  // Latest generated title from the chat pane, patched into the list without a refetch
+  titleUpdate?: { id: string; title: string } | null;
+}
+
+const PAGE_SIZE = 30;
+const SEARCH_DEBOUNCE_MS = 300;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const GROUPS = ['Today', 'This week', 'Older'] as const;
+
+const groupFor = (updatedAt: string, now: Date) => {
+  const startOfToday = new Date(now.getFullYear(), now.getMonth(), now.getDate()).getTime();
+  const time = new Date(updatedAt).getTime();
+  if (time >= startOfToday) return 'Today';
+  if (time >= startOfToday - 6 * DAY_MS) return 'This week';
+  return 'Older';
+};
+
+// `%` and `_` are wildcards in ILIKE; a search for "50%" should match literally.
+const escapeLike = (value: string) => value.replace(/[\\%_]/g, (char) => `\\${char}`);
+
+const ConversationSidebar = ({ activeConversationId, titleUpdate }: ConversationSidebarProps) => {
+  const [conversations, setConversations] = useState<ConversationSummary[]>([]);
+  const [search, setSearch] = useState("");
+  const [query, setQuery] = useState("");
+  const [loading, setLoading] = useState(true);
+  const [hasMore, setHasMore] = useState(false);
+  const [renaming, setRenaming] = useState<{ id: string; title: string } | null>(null);
+  const [pendingDelete, setPendingDelete] = useState<ConversationSummary | null>(null);
+  // Active conversation the list was last refreshed for
+  const refreshedForRef = useRef<string | null>(null);
+  // Id of the latest page request; responses to older ones are dropped
+  const requestIdRef = useRef(0);
+  const navigate = useNavigate();
+
+  useEffect(() => {
+    const timeout = setTimeout(() => setQuery(search.trim()), SEARCH_DEBOUNCE_MS);
+    return () => clearTimeout(timeout);
+  }, [search]);
+
+  const loadPage = useCallback(async (offset: number) => {
+    const requestId = ++requestIdRef.current;
+    setLoading(true);
+
+    let request = supabase
+      .from('chat_conversations')
+      .select('id, title, updated_at')
+      .order('updated_at', { ascending: false })
+      .range(offset, offset + PAGE_SIZE - 1);
+
+    if (query) {
+      request = request.ilike('title', `%${escapeLike(query)}%`);
+    }
+
+    const { data, error } = await request;
+    if (requestId !== requestIdRef.current) return;
+    setLoading(false);
+
+    if (error) {
+      console.error('Error loading conversations:', error);
+      toast.error('Failed to load conversations');
+      return;
+    }
+
+    setConversations(prev => (offset === 0 ? data : [...prev, ...data]));
+    setHasMore(data.length === PAGE_SIZE);
+  }, [query]);
+
+  useEffect(() => {
+    loadPage(0);
+  }, [loadPage]);
+
+  // A conversation created from the chat pane isn't in the list yet; refresh the first page.
+  // Only once per conversation: an older one opened by link may not be on that page at all.
+  useEffect(() => {
+    if (!activeConversationId || query || loading || refreshedForRef.current === activeConversationId) return;
+    if (conversations.some(conv => conv.id === activeConversationId)) return;
+    refreshedForRef.current = activeConversationId;
+    loadPage(0);
+  }, [activeConversationId, query, loading, conversations, loadPage]);
+
+  useEffect(() => {
+    if (!titleUpdate) return;
+    setConversations(prev => prev.map(conv => (conv.id === titleUpdate.id ? { ...conv, title: titleUpdate.title } : conv)));
+  }, [titleUpdate]);
+
+  const handleRename = async () => {
+    if (!renaming) return;
+
+    const { id } = renaming;
+    const title = renaming.title.trim();
+    setRenaming(null);
+
+    const current = conversations.find(conv => conv.id === id);
+    if (!title || !current || title === current.title) return;
+
+    setConversations(prev => prev.map(conv => (conv.id === id ? { ...conv, title } : conv)));
+
+    const { error } = await supabase
+      .from('chat_conversations')
+      .update({ title, title_is_custom: true })
+      .eq('id', id);
+
+    if (error) {
+      console.error('Error renaming conversation:', error);
+      toast.error('Failed to rename conversation');
+      setConversations(prev => prev.map(conv => (conv.id === id ? current : conv)));
+    }
+  };
+
+  const handleDelete = async () => {
+    if (!pendingDelete) return;
+
+    const { id } = pendingDelete;
+    setPendingDelete(null);
+
+    // Messages go with it through the ON DELETE CASCADE foreign key.
+    const { error } = await supabase
+      .from('chat_conversations')
+      .delete()
+      .eq('id', id);
+
+    if (error) {
+      console.error('Error deleting conversation:', error);
+      toast.error('Failed to delete conversation');
+      return;
+    }
+
+    setConversations(prev => prev.filter(conv => conv.id !== id));
+    toast.success('Conversation deleted');
+    if (id === activeConversationId) {
+      navigate('/chat');
+    }
+  };
+
+  const now = new Date();
+  const grouped = GROUPS
+    .map(label => ({ label, items: conversations.filter(conv => groupFor(conv.updated_at, now) === label) }))
+    .filter(group => group.items.length > 0);
+
+  return (
+    <>
+      <Sidebar className="top-16 h-[calc(100svh-4rem)]">
+        <SidebarHeader className="gap-2">
+          <Button asChild size="sm" className="gap-2">
+            <Link to="/chat">
+              <Plus className="h-4 w-4" />
+              New Chat
+            </Link>
+          </Button>
+          <SidebarInput
+            value={search}
+            onChange={(e) => setSearch(e.target.value)}
+            placeholder="Search conversations..."
+            aria-label="Search conversations"
+          />
+        </SidebarHeader>
+
+        <SidebarContent>
+          {grouped.map(group => (
+            <SidebarGroup key={group.label}>
+              <SidebarGroupLabel>{group.label}</SidebarGroupLabel>
+              <SidebarGroupContent>
+                <SidebarMenu>
+                  {group.items.map(conv => (
+                    <SidebarMenuItem key={conv.id}>
+                      {renaming?.id === conv.id ? (
+                        <SidebarInput
+                          value={renaming.title}
+                          onChange={(e) => setRenaming({ id: conv.id, title: e.target.value })}
+                          onBlur={handleRename}
+                          onKeyDown={(e) => {
+                            if (e.key === 'Enter') e.currentTarget.blur();
+                            if (e.key === 'Escape') setRenaming(null);
+                          }}
+                          aria-label="Conversation title"
+                          autoFocus
+                        />
+                      ) : (
+                        <>
+                          <SidebarMenuButton asChild isActive={conv.id === activeConversationId}>
+                            <Link to={`/chat/${conv.id}`}>
+                              <span>{conv.title}</span>
+                            </Link>
+                          </SidebarMenuButton>
+                          <DropdownMenu>
+                            <DropdownMenuTrigger asChild>
+                              <SidebarMenuAction showOnHover aria-label="Conversation options">
+                                <MoreHorizontal />
+                              </SidebarMenuAction>
+                            </DropdownMenuTrigger>
+                            <DropdownMenuContent
+                              side="right"
+                              align="start"
+                              // Keep focus on the rename input instead of returning it to the trigger.
+                              onCloseAutoFocus={(e) => e.preventDefault()}
+                            >
+                              <DropdownMenuItem onClick={() => setRenaming({ id: conv.id, title: conv.title })}>
+                                <Pencil className="h-4 w-4 mr-2" />
+                                Rename
+                              </DropdownMenuItem>
+                              <DropdownMenuItem
+                                onClick={() => setPendingDelete(conv)}
+                                className="text-destructive focus:text-destructive"
+                              >
+                                <Trash2 className="h-4 w-4 mr-2" />
+                                Delete
+                              </DropdownMenuItem>
+                            </DropdownMenuContent>
+                          </DropdownMenu>
+                        </>
+                      )}
+                    </SidebarMenuItem>
+                  ))}
+                </SidebarMenu>
+              </SidebarGroupContent>
+            </SidebarGroup>
+          ))}
+
+          <SidebarGroup>
+            {loading && (
+              <SidebarMenu>
+                {Array.from({ length: 3 }, (_, index) => (
+                  <SidebarMenuItem key={index}>
+                    <SidebarMenuSkeleton />
+                  </SidebarMenuItem>
+                ))}
+              </SidebarMenu>
+            )}
+            {!loading && conversations.length === 0 && (
+              <p className="px-2 text-sm text-muted-foreground">
+                {query ? 'No conversations match your search.' : 'No conversations yet.'}
+              </p>
+            )}
+            {!loading && hasMore && (
+              <Button variant="ghost" size="sm" onClick={() => loadPage(conversations.length)}>
+                Load more
+              </Button>
+            )}
+          </SidebarGroup>
+        </SidebarContent>
+      </Sidebar>
+
+      <AlertDialog open={!!pendingDelete} onOpenChange={(open) => !open && setPendingDelete(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Delete this conversation?</AlertDialogTitle>
+            <AlertDialogDescription>
+              "{pendingDelete?.title}" and all of its messages will be permanently deleted.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={handleDelete}
+              className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
+            >
+              Delete
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </>
+  );
+};
+
+export default ConversationSidebar;
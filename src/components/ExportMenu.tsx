@@ -0,0 +1,97 @@
+import { useState } from "react";
+import { Download, FileJson, FileText, FileType, Loader2 } from "lucide-react";
+import { toast } from "sonner";
+import { Button } from "@/components/ui/button";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import { ConversationBrief, exportFileName } from "@/lib/export/brief";
+import { hasUnsupportedPdfCharacters } from "@/lib/export/pdf-support";
+import { toJson, toMarkdown } from "@/lib/export/text";
+import { downloadBlob } from "@/lib/export/download";
+
+type ExportFormat = 'pdf' | 'docx' | 'md' | 'json';
+
+interface ExportMenuProps {
+  getBrief: () => ConversationBrief;
+  disabled?: boolean;
+}
+
+const render = async (brief: ConversationBrief, format: ExportFormat): Promise<Blob> => {
+  switch (format) {
+    case 'pdf':
+      return (await import("@/lib/export/pdf")).toPdf(brief);
+    case 'docx':
+      return (await import("@/lib/export/docx")).toDocx(brief);
+    case 'md':
+      return new Blob([toMarkdown(brief)], { type: 'text/markdown;charset=utf-8' });
+    case 'json':
+      return new Blob([toJson(brief)], { type: 'application/json' });
+  }
+};
+
+const briefText = (brief: ConversationBrief) =>
+  [brief.title, ...brief.turns.flatMap((turn) => [turn.question, turn.answer ?? ''])].join('\n');
+
+const ExportMenu = ({ getBrief, disabled }: ExportMenuProps) => {
+  const [exporting, setExporting] = useState(false);
+  // Checked each time the menu opens, since the conversation keeps changing
+  const [pdfSupported, setPdfSupported] = useState(true);
+
+  const handleExport = async (format: ExportFormat) => {
+    setExporting(true);
+    try {
+      const brief = getBrief();
+      downloadBlob(await render(brief, format), exportFileName(brief, format));
+    } catch (error) {
+      console.error('Export error:', error);
+      toast.error('Failed to export conversation');
+    } finally {
+      setExporting(false);
+    }
+  };
+
+  return (
+    <DropdownMenu onOpenChange={(open) => open && setPdfSupported(!hasUnsupportedPdfCharacters(briefText(getBrief())))}>
+      <DropdownMenuTrigger asChild>
+        <Button variant="ghost" size="sm" className="gap-2" disabled={disabled || exporting}>
+          {exporting ? <Loader2 className="h-4 w-4 animate-spin" /> : <Download className="h-4 w-4" />}
+          Export
+        </Button>
+      </DropdownMenuTrigger>
+      <DropdownMenuContent align="end">
+        <DropdownMenuLabel>Legal brief</DropdownMenuLabel>
+        <DropdownMenuItem onClick={() => handleExport('pdf')} disabled={!pdfSupported}>
+          <FileText className="h-4 w-4 mr-2" />
+          PDF
+        </DropdownMenuItem>
+        {!pdfSupported && (
+          <p className="max-w-[220px] px-2 pb-1 text-xs text-muted-foreground">
+            PDF can't show Hindi, other Indian scripts or symbols such as ₹ yet. Use Word (DOCX) instead.
+          </p>
+        )}
+        <DropdownMenuItem onClick={() => handleExport('docx')}>
+          <FileType className="h-4 w-4 mr-2" />
+          Word (DOCX)
+        </DropdownMenuItem>
+        <DropdownMenuSeparator />
+        <DropdownMenuLabel>Archive</DropdownMenuLabel>
+        <DropdownMenuItem onClick={() => handleExport('md')}>
+          <FileText className="h-4 w-4 mr-2" />
+          Markdown
+        </DropdownMenuItem>
+        <DropdownMenuItem onClick={() => handleExport('json')}>
+          <FileJson className="h-4 w-4 mr-2" />
+          JSON
+        </DropdownMenuItem>
+      </DropdownMenuContent>
+    </DropdownMenu>
+  );
+};
+
+export default ExportMenu;
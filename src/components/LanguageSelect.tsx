@@ -0,0 +1,40 @@
+import { Languages } from "lucide-react";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { getLanguage, LANGUAGES } from "@/lib/languages";
+
+const PROFILE_DEFAULT = "profile-default";
+
+interface LanguageSelectProps {
+  value: string | null;
+  profileLanguage: string | null;
+  onChange: (language: string | null) => void;
+  disabled?: boolean;
+}
+
+const LanguageSelect = ({ value, profileLanguage, onChange, disabled }: LanguageSelectProps) => (
+  <div className="flex items-center gap-2">
+    <Languages className="h-4 w-4 text-muted-foreground" />
+    <Select
+      value={value ?? PROFILE_DEFAULT}
+      onValueChange={(next) => onChange(next === PROFILE_DEFAULT ? null : next)}
+      disabled={disabled}
+    >
+      <SelectTrigger className="h-8 w-[200px]" aria-label="Answer language">
+        <SelectValue />
+      </SelectTrigger>
+      <SelectContent>
+        <SelectItem value={PROFILE_DEFAULT}>
+          Default ({getLanguage(profileLanguage).nativeName})
+        </SelectItem>
+        {LANGUAGES.map((language) => (
+          <SelectItem key={language.code} value={language.code}>
+            {language.nativeName}
+            {language.nativeName !== language.name && ` · ${language.name}`}
+          </SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  </div>
+);
+
+export default LanguageSelect;
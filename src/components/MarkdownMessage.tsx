@@ -0,0 +1,34 @@
+import ReactMarkdown, { type Components } from "react-markdown";
+import remarkGfm from "remark-gfm";
+import { cn } from "@/lib/utils";
+
+interface MarkdownMessageProps {
+  content: string;
+  className?: string;
+}
+
+// Model output is untrusted: raw HTML is dropped (`skipHtml`) and react-markdown's default
+// urlTransform already strips `javascript:` and other unsafe link/image protocols.
+const components: Components = {
+  a: ({ node: _node, ...props }) => <a {...props} target="_blank" rel="noopener noreferrer nofollow" />,
+  table: ({ node: _node, ...props }) => (
+    <div className="overflow-x-auto">
+      <table {...props} />
+    </div>
+  ),
+};
+
+const MarkdownMessage = ({ content, className }: MarkdownMessageProps) => (
+  <div
+    className={cn(
+      "prose prose-sm max-w-none dark:prose-invert prose-headings:mb-2 prose-headings:mt-4 prose-p:my-2 prose-a:text-primary prose-pre:bg-muted prose-pre:text-foreground",
+      className,
+    )}
+  >
+    <ReactMarkdown remarkPlugins={[remarkGfm]} components={components} skipHtml>
+      {content}
+    </ReactMarkdown>
+  </div>
+);
+
+export default MarkdownMessage;
@@ -0,0 +1,153 @@
+import { useEffect, useState } from "react";
+import { useNavigate } from "react-router-dom";
+import { Search, MessageSquare, Loader2 } from "lucide-react";
+import { toast } from "sonner";
+import { supabase } from "@/integrations/supabase/client";
+import { Button } from "@/components/ui/button";
+import {
+  CommandDialog,
+  CommandEmpty,
+  CommandGroup,
+  CommandInput,
+  CommandItem,
+  CommandList,
+} from "@/components/ui/command";
+
+interface MessageHit {
+  message_id: string;
+  conversation_id: string;
+  conversation_title: string;
+  role: string;
+  snippet: string;
+  created_at: string;
+}
+
+const SEARCH_DEBOUNCE_MS = 250;
+const MIN_QUERY_LENGTH = 2;
+
+// search_messages wraps each match in these private-use characters (see its migration).
+const HIT_START = '\uE000';
+const HIT_END = '\uE001';
+
+const Snippet = ({ text }: { text: string }) => (
+  <>
+    {text.split(HIT_START).map((part, index) => {
+      if (index === 0) return part;
+      const [hit, rest = ''] = part.split(HIT_END);
+      return (
+        <span key={index}>
+          <mark className="rounded-sm bg-warning/30 text-inherit">{hit}</mark>
+          {rest}
+        </span>
+      );
+    })}
+  </>
+);
+
+// Global Ctrl/Cmd+K palette searching every message in the user's conversations.
+const MessageSearch = () => {
+  const [open, setOpen] = useState(false);
+  const [query, setQuery] = useState("");
+  const [hits, setHits] = useState<MessageHit[]>([]);
+  const [searching, setSearching] = useState(false);
+  const navigate = useNavigate();
+
+  useEffect(() => {
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (event.key === 'k' && (event.metaKey || event.ctrlKey)) {
+        event.preventDefault();
+        setOpen(prev => !prev);
+      }
+    };
+
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, []);
+
+  useEffect(() => {
+    const trimmed = query.trim();
+    if (trimmed.length < MIN_QUERY_LENGTH) {
+      setHits([]);
+      setSearching(false);
+      return;
+    }
+
+    let cancelled = false;
+    const timeout = setTimeout(async () => {
+      setSearching(true);
+      const { data, error } = await supabase.rpc('search_messages', { p_query: trimmed });
+      if (cancelled) return;
+      setSearching(false);
+
+      if (error) {
+        console.error('Error searching messages:', error);
+        toast.error('Search failed');
+        return;
+      }
+      setHits(data ?? []);
+    }, SEARCH_DEBOUNCE_MS);
+
+    return () => {
+      cancelled = true;
+      clearTimeout(timeout);
+    };
+  }, [query]);
+
+  const handleSelect = (hit: MessageHit) => {
+    setOpen(false);
+    navigate(`/chat/${hit.conversation_id}?message=${hit.message_id}`);
+  };
+
+  return (
+    <>
+      <Button
+        variant="outline"
+        className="gap-2 text-muted-foreground"
+        onClick={() => setOpen(true)}
+      >
+        <Search className="h-4 w-4" />
+        <span className="hidden lg:inline">Search chats</span>
+        <kbd className="hidden lg:inline rounded border bg-muted px-1.5 text-xs">⌘K</kbd>
+      </Button>
+
+      {/* Results are already ranked by Postgres; cmdk's own fuzzy filter would hide them. */}
+      <CommandDialog open={open} onOpenChange={setOpen} shouldFilter={false}>
+        <CommandInput value={query} onValueChange={setQuery} placeholder="Search your conversations..." />
+        <CommandList>
+          {searching && (
+            <div className="flex items-center justify-center gap-2 py-6 text-sm text-muted-foreground">
+              <Loader2 className="h-4 w-4 animate-spin" />
+              Searching...
+            </div>
+          )}
+          {!searching && query.trim().length >= MIN_QUERY_LENGTH && (
+            <CommandEmpty>No messages found.</CommandEmpty>
+          )}
+          {hits.length > 0 && (
+            <CommandGroup heading="Messages">
+              {hits.map(hit => (
+                <CommandItem
+                  key={hit.message_id}
+                  value={hit.message_id}
+                  onSelect={() => handleSelect(hit)}
+                  className="flex-col items-start gap-1"
+                >
+                  <div className="flex w-full items-center gap-2 text-xs text-muted-foreground">
+                    <MessageSquare className="h-3 w-3" />
+                    <span className="truncate">{hit.conversation_title}</span>
+                    <span className="ml-auto shrink-0">{new Date(hit.created_at).toLocaleDateString()}</span>
+                  </div>
+                  <p className="line-clamp-2 text-sm">
+                    <Snippet text={hit.snippet} />
+                  </p>
+                </CommandItem>
+              ))}
+            </CommandGroup>
+          )}
+        </CommandList>
+      </CommandDialog>
+    </>
+  );
+};
+
+export default MessageSearch;
@@ -1,4 +1,4 @@
-import { Scale, User, LogOut, BookOpen, MessageSquare } from "lucide-react";
+import { Scale, User, LogOut, BookOpen, MessageSquare, Bookmark, FileText } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { Link, useNavigate } from "react-router-dom";
 import { supabase } from "@/integrations/supabase/client";
@@ -9,6 +9,7 @@ import {
   DropdownMenuItem,
   DropdownMenuTrigger,
 } from "@/components/ui/dropdown-menu";
+import MessageSearch from "@/components/MessageSearch";
 
 interface NavigationProps {
   user: any;
@@ -35,8 +36,15 @@ const Navigation = ({ user }: NavigationProps) => {
           </Link>
 
           <div className="flex items-center gap-4">
+            <Link to="/forms">
+              <Button variant="ghost" className="gap-2">
+                <FileText className="h-4 w-4" />
+                Forms
+              </Button>
+            </Link>
             {user ? (
               <>
+                <MessageSearch />
                 <Link to="/chat">
                   <Button variant="ghost" className="gap-2">
                     <MessageSquare className="h-4 w-4" />
@@ -49,6 +57,12 @@ const Navigation = ({ user }: NavigationProps) => {
                     Dashboard
                   </Button>
                 </Link>
+                <Link to="/saved">
+                  <Button variant="ghost" className="gap-2">
+                    <Bookmark className="h-4 w-4" />
+                    Saved
+                  </Button>
+                </Link>
                 <DropdownMenu>
                   <DropdownMenuTrigger asChild>
                     <Button variant="outline" size="icon" className="rounded-full">
@@ -0,0 +1,53 @@
+import { useEffect, useState } from "react";
+import { Clock } from "lucide-react";
+import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
+import type { RateLimitScope } from "@/lib/legal-chat/errors";
+
+interface RateLimitNoticeProps {
+  retryAt: number;
+  scope?: RateLimitScope;
+  onExpire: () => void;
+}
+
+const scopeMessages: Record<RateLimitScope, string> = {
+  user: "You're sending messages faster than we can answer them.",
+  ip: "Too many requests are coming from your network.",
+  daily_tokens: "You've reached today's usage limit.",
+};
+
+const formatRemaining = (seconds: number) => {
+  const hours = Math.floor(seconds / 3600);
+  const minutes = Math.floor((seconds % 3600) / 60);
+  const secs = seconds % 60;
+  const pad = (value: number) => value.toString().padStart(2, "0");
+  return hours > 0 ? `${hours}:${pad(minutes)}:${pad(secs)}` : `${minutes}:${pad(secs)}`;
+};
+
+const RateLimitNotice = ({ retryAt, scope, onExpire }: RateLimitNoticeProps) => {
+  const [remaining, setRemaining] = useState(() => Math.max(0, Math.ceil((retryAt - Date.now()) / 1000)));
+
+  useEffect(() => {
+    const tick = () => {
+      const seconds = Math.max(0, Math.ceil((retryAt - Date.now()) / 1000));
+      setRemaining(seconds);
+      if (seconds === 0) onExpire();
+    };
+
+    tick();
+    const interval = setInterval(tick, 1000);
+    return () => clearInterval(interval);
+  }, [retryAt, onExpire]);
+
+  return (
+    <Alert className="mb-3">
+      <Clock className="h-4 w-4" />
+      <AlertTitle>Please wait a moment</AlertTitle>
+      <AlertDescription>
+        {scopeMessages[scope ?? "user"]} You can send another message in{" "}
+        <span className="font-mono font-medium">{formatRemaining(remaining)}</span>.
+      </AlertDescription>
+    </Alert>
+  );
+};
+
+export default RateLimitNotice;
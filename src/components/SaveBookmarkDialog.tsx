@@ -0,0 +1,74 @@
+import { useEffect, useState } from "react";
+import { Loader2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+
+interface SaveBookmarkDialogProps {
+  open: boolean;
+  defaultTitle: string;
+  onOpenChange: (open: boolean) => void;
+  // Resolves false when saving failed and the dialog should stay open
+  onSave: (title: string) => Promise<boolean>;
+}
+
+const SaveBookmarkDialog = ({ open, defaultTitle, onOpenChange, onSave }: SaveBookmarkDialogProps) => {
+  const [title, setTitle] = useState(defaultTitle);
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    if (open) setTitle(defaultTitle);
+  }, [open, defaultTitle]);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!title.trim()) return;
+
+    setSaving(true);
+    const saved = await onSave(title.trim());
+    setSaving(false);
+    if (saved) onOpenChange(false);
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent>
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <DialogHeader>
+            <DialogTitle>Save bookmark</DialogTitle>
+            <DialogDescription>Find it again later under Saved.</DialogDescription>
+          </DialogHeader>
+          <div className="space-y-2">
+            <Label htmlFor="bookmark-title">Title</Label>
+            <Input
+              id="bookmark-title"
+              value={title}
+              onChange={(e) => setTitle(e.target.value)}
+              maxLength={200}
+              autoFocus
+            />
+          </div>
+          <DialogFooter>
+            <Button type="button" variant="outline" onClick={() => onOpenChange(false)}>
+              Cancel
+            </Button>
+            <Button type="submit" disabled={!title.trim() || saving}>
+              {saving && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+              Save
+            </Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default SaveBookmarkDialog;
@@ -0,0 +1,186 @@
+import { useEffect, useState } from "react";
+import { Copy, Link2, Loader2, Share2 } from "lucide-react";
+import { toast } from "sonner";
+import { supabase } from "@/integrations/supabase/client";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from "@/components/ui/dialog";
+
+interface Share {
+  id: string;
+  token: string;
+  expires_at: string | null;
+  created_at: string;
+}
+
+interface ShareDialogProps {
+  conversationId?: string;
+  disabled?: boolean;
+}
+
+const EXPIRY_OPTIONS = [
+  { value: 'never', label: 'Never expires', days: null },
+  { value: '1', label: 'Expires in 1 day', days: 1 },
+  { value: '7', label: 'Expires in 7 days', days: 7 },
+  { value: '30', label: 'Expires in 30 days', days: 30 },
+];
+
+const shareUrl = (token: string) => `${window.location.origin}/share/${token}`;
+
+const ShareDialog = ({ conversationId, disabled }: ShareDialogProps) => {
+  const [open, setOpen] = useState(false);
+  const [shares, setShares] = useState<Share[]>([]);
+  const [expiry, setExpiry] = useState('7');
+  const [creating, setCreating] = useState(false);
+
+  useEffect(() => {
+    if (open && conversationId) loadShares(conversationId);
+  }, [open, conversationId]);
+
+  // Only links that still work; revoked and expired ones stay in the table but aren't listed.
+  const loadShares = async (convId: string) => {
+    const { data, error } = await supabase
+      .from('conversation_shares')
+      .select('id, token, expires_at, created_at')
+      .eq('conversation_id', convId)
+      .is('revoked_at', null)
+      .or(`expires_at.is.null,expires_at.gt.${new Date().toISOString()}`)
+      .order('created_at', { ascending: false });
+
+    if (error) {
+      console.error('Error loading share links:', error);
+      toast.error('Failed to load share links');
+      return;
+    }
+    setShares(data);
+  };
+
+  const copyLink = async (token: string) => {
+    try {
+      await navigator.clipboard.writeText(shareUrl(token));
+      toast.success('Link copied');
+    } catch {
+      toast.error('Could not copy the link');
+    }
+  };
+
+  const handleCreate = async () => {
+    if (!conversationId) return;
+    setCreating(true);
+
+    const { data: { user } } = await supabase.auth.getUser();
+    if (!user) {
+      setCreating(false);
+      toast.error('Please sign in to share conversations');
+      return;
+    }
+
+    const days = EXPIRY_OPTIONS.find(option => option.value === expiry)?.days ?? null;
+    const { data, error } = await supabase
+      .from('conversation_shares')
+      .insert({
+        conversation_id: conversationId,
+        user_id: user.id,
+        expires_at: days ? new Date(Date.now() + days * 24 * 60 * 60 * 1000).toISOString() : null,
+      })
+      .select('id, token, expires_at, created_at')
+      .single();
+
+    setCreating(false);
+    if (error) {
+      console.error('Error creating share link:', error);
+      toast.error('Failed to create share link');
+      return;
+    }
+
+    setShares(prev => [data, ...prev]);
+    copyLink(data.token);
+  };
+
+  const handleRevoke = async (id: string) => {
+    const { error } = await supabase
+      .from('conversation_shares')
+      .update({ revoked_at: new Date().toISOString() })
+      .eq('id', id);
+
+    if (error) {
+      console.error('Error revoking share link:', error);
+      toast.error('Failed to revoke link');
+      return;
+    }
+
+    setShares(prev => prev.filter(share => share.id !== id));
+    toast.success('Link revoked. It no longer opens the conversation.');
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={setOpen}>
+      <DialogTrigger asChild>
+        <Button variant="ghost" size="sm" className="gap-2" disabled={disabled || !conversationId}>
+          <Share2 className="h-4 w-4" />
+          Share
+        </Button>
+      </DialogTrigger>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Share conversation</DialogTitle>
+          <DialogDescription>
+            Anyone with the link can read this conversation, without signing in. They can't reply or see your other chats.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="flex gap-2">
+          <Select value={expiry} onValueChange={setExpiry}>
+            <SelectTrigger className="flex-1" aria-label="Link expiry">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {EXPIRY_OPTIONS.map(option => (
+                <SelectItem key={option.value} value={option.value}>{option.label}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Button onClick={handleCreate} disabled={creating} className="gap-2">
+            {creating ? <Loader2 className="h-4 w-4 animate-spin" /> : <Link2 className="h-4 w-4" />}
+            Create link
+          </Button>
+        </div>
+
+        {shares.length > 0 && (
+          <div className="space-y-3">
+            <Label>Active links</Label>
+            {shares.map(share => (
+              <div key={share.id} className="space-y-1">
+                <div className="flex gap-2">
+                  <Input value={shareUrl(share.token)} readOnly className="font-mono text-xs" aria-label="Share link" />
+                  <Button variant="outline" size="icon" onClick={() => copyLink(share.token)} aria-label="Copy link">
+                    <Copy className="h-4 w-4" />
+                  </Button>
+                  <Button variant="outline" onClick={() => handleRevoke(share.id)}>
+                    Revoke
+                  </Button>
+                </div>
+                <p className="text-xs text-muted-foreground">
+                  {share.expires_at
+                    ? `Expires ${new Date(share.expires_at).toLocaleString()}`
+                    : 'Never expires'}
+                </p>
+              </div>
+            ))}
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default ShareDialog;
@@ -0,0 +1,27 @@
+import { BookOpen } from "lucide-react";
+import { Badge } from "@/components/ui/badge";
+import { formatStatuteLabel, getStatute } from "@/lib/statutes";
+
+interface StatuteSourcesProps {
+  sectionIds: string[];
+}
+
+// Statute sections that were retrieved and given to the model as grounding for an answer.
+const StatuteSources = ({ sectionIds }: StatuteSourcesProps) => {
+  const sections = sectionIds.map(getStatute).filter(Boolean);
+  if (sections.length === 0) return null;
+
+  return (
+    <div className="mt-3 flex flex-wrap items-center gap-1.5 border-t pt-3">
+      <BookOpen className="h-3.5 w-3.5 text-muted-foreground" />
+      <span className="text-xs text-muted-foreground">Sources:</span>
+      {sections.map((section) => (
+        <Badge key={section.id} variant="outline" className="font-normal" title={`${section.act} — ${section.title}`}>
+          {formatStatuteLabel(section)}
+        </Badge>
+      ))}
+    </div>
+  );
+};
+
+export default StatuteSources;
@@ -0,0 +1,477 @@
+import { useState } from "react";
+import { FieldErrors, useFieldArray, useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { AlertTriangle, ArrowLeft, ArrowRight, Landmark, Pencil, Plus, Trash2 } from "lucide-react";
+import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { Form, FormControl, FormDescription, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
+import DraftActions from "@/components/forms/DraftActions";
+import WizardSteps from "@/components/forms/WizardSteps";
+import type { GuidedFormProps } from "@/components/forms/guided";
+import { DISCLAIMER } from "@/lib/export/brief";
+import { formatRupees, todayInputValue } from "@/lib/templates";
+import {
+  ConsumerValues,
+  buildComplaintBundle,
+  claimValue,
+  consumerPrefill,
+  consumerSchema,
+  getCommissionTier,
+  getFilingFee,
+  isWithinLimitation,
+} from "@/lib/forms/consumer";
+
+const STEPS: { title: string; description: string; fields: (keyof ConsumerValues)[] }[] = [
+  {
+    title: 'Parties',
+    description: 'You are the Complainant; the seller or service provider is the Opposite Party.',
+    fields: [
+      'complainantName',
+      'complainantParentage',
+      'complainantAge',
+      'complainantAddress',
+      'complainantPhone',
+      'complainantEmail',
+      'oppositeParties',
+    ],
+  },
+  {
+    title: 'Purchase and problem',
+    description: 'What you paid for, and what went wrong.',
+    fields: [
+      'nature',
+      'productDescription',
+      'purchaseDate',
+      'considerationPaid',
+      'invoiceNumber',
+      'deficiency',
+      'priorComplaint',
+      'causeOfActionDate',
+      'unfairTradePractice',
+    ],
+  },
+  {
+    title: 'Relief',
+    description: 'What you want the Commission to order.',
+    fields: ['refundAmount', 'compensationAmount', 'costsAmount', 'otherRelief'],
+  },
+  {
+    title: 'Documents and filing',
+    description: 'Copies of these are attached as annexures, listed in the index.',
+    fields: ['documents', 'district', 'state', 'place', 'date'],
+  },
+];
+
+const REVIEW_STEP = STEPS.length;
+
+const defaultValues: ConsumerValues = {
+  complainantName: '',
+  complainantParentage: '',
+  complainantAge: '',
+  complainantAddress: '',
+  complainantPhone: '',
+  complainantEmail: '',
+  oppositeParties: [{ name: '', address: '' }],
+  nature: 'goods',
+  productDescription: '',
+  purchaseDate: '',
+  considerationPaid: '',
+  invoiceNumber: '',
+  deficiency: '',
+  priorComplaint: '',
+  causeOfActionDate: '',
+  unfairTradePractice: false,
+  refundAmount: '',
+  compensationAmount: '',
+  costsAmount: '',
+  otherRelief: '',
+  documents: [{ description: 'Invoice / receipt of payment' }],
+  district: '',
+  state: '',
+  place: '',
+  date: todayInputValue(),
+};
+
+type TextFieldName = Exclude<keyof ConsumerValues, 'oppositeParties' | 'documents' | 'nature' | 'unfairTradePractice'>;
+
+const ConsumerComplaintWizard = ({ template, prefill }: GuidedFormProps) => {
+  const [step, setStep] = useState(0);
+  const form = useForm<ConsumerValues>({
+    resolver: zodResolver(consumerSchema),
+    defaultValues: { ...defaultValues, ...(prefill && consumerPrefill(prefill)) },
+  });
+  const parties = useFieldArray({ control: form.control, name: 'oppositeParties' });
+  const documents = useFieldArray({ control: form.control, name: 'documents' });
+
+  const [considerationPaid, causeOfActionDate, refundAmount, compensationAmount, costsAmount] = form.watch([
+    'considerationPaid',
+    'causeOfActionDate',
+    'refundAmount',
+    'compensationAmount',
+    'costsAmount',
+  ]);
+  const consideration = /^\d+$/.test(considerationPaid) ? Number(considerationPaid) : null;
+  const tier = consideration !== null ? getCommissionTier(consideration) : null;
+
+  // Date-order and relief checks span steps, so the last step validates everything and
+  // sends the user back to the first step with a problem.
+  const showFirstInvalidStep = (errors: FieldErrors<ConsumerValues>) => {
+    const invalid = STEPS.findIndex(({ fields }) => fields.some(field => errors[field]));
+    setStep(invalid === -1 ? 0 : invalid);
+  };
+
+  const handleNext = async () => {
+    if (step === REVIEW_STEP - 1) {
+      await form.handleSubmit(() => setStep(REVIEW_STEP), showFirstInvalidStep)();
+      return;
+    }
+    if (await form.trigger(STEPS[step].fields)) setStep(step + 1);
+  };
+
+  const textField = (name: TextFieldName, label: string, options: { description?: string; placeholder?: string; type?: string; multiline?: boolean } = {}) => (
+    <FormField
+      control={form.control}
+      name={name}
+      render={({ field }) => (
+        <FormItem>
+          <FormLabel>{label}</FormLabel>
+          <FormControl>
+            {options.multiline ? (
+              <Textarea {...field} rows={3} placeholder={options.placeholder} />
+            ) : (
+              <Input {...field} type={options.type} placeholder={options.placeholder} />
+            )}
+          </FormControl>
+          {options.description && <FormDescription>{options.description}</FormDescription>}
+          <FormMessage />
+        </FormItem>
+      )}
+    />
+  );
+
+  const jurisdictionSummary = tier && consideration !== null && (
+    <Alert>
+      <Landmark className="h-4 w-4" />
+      <AlertTitle>File before the {tier.label}</AlertTitle>
+      <AlertDescription>
+        You paid {formatRupees(consideration)}, which is {tier.range}. Filing fee:{' '}
+        {getFilingFee(consideration) > 0 ? formatRupees(getFilingFee(consideration)) : 'none'}.
+      </AlertDescription>
+    </Alert>
+  );
+
+  const limitationWarning = causeOfActionDate && !isWithinLimitation(causeOfActionDate) && (
+    <Alert variant="destructive">
+      <AlertTriangle className="h-4 w-4" />
+      <AlertTitle>More than two years have passed</AlertTitle>
+      <AlertDescription>
+        Complaints must be filed within two years of the cause of action (Section 69). You will need to file an
+        application explaining the delay; the Commission may refuse it.
+      </AlertDescription>
+    </Alert>
+  );
+
+  const renderStep = () => {
+    switch (step) {
+      case 0:
+        return (
+          <>
+            {textField('complainantName', 'Your full name')}
+            <div className="grid gap-4 sm:grid-cols-3">
+              <div className="sm:col-span-2">
+                {textField('complainantParentage', 'Son/daughter/spouse of (optional)', { placeholder: 'S/o Ramesh Kumar' })}
+              </div>
+              {textField('complainantAge', 'Age', { type: 'number' })}
+            </div>
+            {textField('complainantAddress', 'Your address', { multiline: true })}
+            <div className="grid gap-4 sm:grid-cols-2">
+              {textField('complainantPhone', 'Mobile (optional)')}
+              {textField('complainantEmail', 'Email (optional)', { type: 'email' })}
+            </div>
+
+            <div className="space-y-3 pt-2">
+              <Label>Opposite parties</Label>
+              <p className="text-sm text-muted-foreground">
+                The seller, manufacturer or service provider. Add each one you hold responsible.
+              </p>
+              {parties.fields.map((party, index) => (
+                <div key={party.id} className="space-y-3 rounded-md border p-4">
+                  <div className="flex items-center justify-between">
+                    <span className="text-sm font-medium">Opposite Party {index + 1}</span>
+                    {parties.fields.length > 1 && (
+                      <Button
+                        type="button"
+                        variant="ghost"
+                        size="icon"
+                        onClick={() => parties.remove(index)}
+                        aria-label="Remove opposite party"
+                      >
+                        <Trash2 className="h-4 w-4" />
+                      </Button>
+                    )}
+                  </div>
+                  <FormField
+                    control={form.control}
+                    name={`oppositeParties.${index}.name`}
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>Name</FormLabel>
+                        <FormControl><Input {...field} placeholder="XYZ Electronics Pvt. Ltd., through its Manager" /></FormControl>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+                  <FormField
+                    control={form.control}
+                    name={`oppositeParties.${index}.address`}
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>Address</FormLabel>
+                        <FormControl><Textarea {...field} rows={2} /></FormControl>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+                </div>
+              ))}
+              <Button
+                type="button"
+                variant="outline"
+                size="sm"
+                className="gap-2"
+                onClick={() => parties.append({ name: '', address: '' })}
+              >
+                <Plus className="h-4 w-4" />
+                Add opposite party
+              </Button>
+            </div>
+          </>
+        );
+      case 1:
+        return (
+          <>
+            <FormField
+              control={form.control}
+              name="nature"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>The complaint is about</FormLabel>
+                  <FormControl>
+                    <RadioGroup value={field.value} onValueChange={field.onChange} className="flex gap-6">
+                      <FormItem className="flex items-center gap-2 space-y-0">
+                        <FormControl><RadioGroupItem value="goods" /></FormControl>
+                        <FormLabel className="font-normal">Defective goods</FormLabel>
+                      </FormItem>
+                      <FormItem className="flex items-center gap-2 space-y-0">
+                        <FormControl><RadioGroupItem value="services" /></FormControl>
+                        <FormLabel className="font-normal">Deficient service</FormLabel>
+                      </FormItem>
+                    </RadioGroup>
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+            {textField('productDescription', 'What you bought or hired', { placeholder: 'a Model X washing machine' })}
+            <div className="grid gap-4 sm:grid-cols-3">
+              {textField('purchaseDate', 'Date of purchase', { type: 'date' })}
+              {textField('considerationPaid', 'Amount paid (Rs.)', { type: 'number' })}
+              {textField('invoiceNumber', 'Invoice no. (optional)')}
+            </div>
+            {jurisdictionSummary}
+            {textField('deficiency', 'What went wrong', {
+              multiline: true,
+              description: 'Give dates and facts: what happened, what they promised, and how it affected you.',
+            })}
+            {textField('priorComplaint', 'Complaints you already made (optional)', {
+              multiline: true,
+              placeholder: 'emailed customer care on 12/03/2025 (ticket 4521) and sent a legal notice on 02/04/2025',
+            })}
+            {textField('causeOfActionDate', 'When the cause of action arose', {
+              type: 'date',
+              description: 'Usually the date the defect appeared or your last request was refused.',
+            })}
+            {limitationWarning}
+            <FormField
+              control={form.control}
+              name="unfairTradePractice"
+              render={({ field }) => (
+                <FormItem className="flex flex-row items-start gap-3 space-y-0 rounded-md border p-4">
+                  <FormControl>
+                    <Checkbox checked={field.value} onCheckedChange={(checked) => field.onChange(checked === true)} />
+                  </FormControl>
+                  <div className="space-y-1 leading-none">
+                    <FormLabel>They also misled me</FormLabel>
+                    <FormDescription>False claims, hidden charges or refusing a bill are unfair trade practices.</FormDescription>
+                  </div>
+                </FormItem>
+              )}
+            />
+          </>
+        );
+      case 2:
+        return (
+          <>
+            <div className="grid gap-4 sm:grid-cols-3">
+              {textField('refundAmount', 'Refund (Rs.)', { type: 'number' })}
+              {textField('compensationAmount', 'Compensation (Rs.)', { type: 'number' })}
+              {textField('costsAmount', 'Litigation costs (Rs.)', { type: 'number' })}
+            </div>
+            <p className="text-sm text-muted-foreground">
+              Total claimed: {formatRupees(claimValue({ refundAmount, compensationAmount, costsAmount }))}. The Commission
+              is chosen by the amount you paid, not the amount you claim.
+            </p>
+            {textField('otherRelief', 'Other relief (optional)', {
+              multiline: true,
+              placeholder: 'replace the machine with a new one of the same model',
+            })}
+            {jurisdictionSummary}
+          </>
+        );
+      case 3:
+        return (
+          <>
+            <div className="space-y-3">
+              <Label>Documents you will attach</Label>
+              {documents.fields.map((document, index) => (
+                <FormField
+                  key={document.id}
+                  control={form.control}
+                  name={`documents.${index}.description`}
+                  render={({ field }) => (
+                    <FormItem>
+                      <div className="flex items-center gap-2">
+                        <span className="w-12 shrink-0 text-xs text-muted-foreground">C-{index + 1}</span>
+                        <FormControl><Input {...field} /></FormControl>
+                        <Button
+                          type="button"
+                          variant="ghost"
+                          size="icon"
+                          onClick={() => documents.remove(index)}
+                          aria-label="Remove document"
+                        >
+                          <Trash2 className="h-4 w-4" />
+                        </Button>
+                      </div>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+              ))}
+              <Button
+                type="button"
+                variant="outline"
+                size="sm"
+                className="gap-2"
+                onClick={() => documents.append({ description: '' })}
+              >
+                <Plus className="h-4 w-4" />
+                Add document
+              </Button>
+            </div>
+            <div className="grid gap-4 sm:grid-cols-2">
+              {textField('district', 'District', {
+                description: 'Where you live or work, or where the cause of action arose (Section 34(2)).',
+              })}
+              {textField('state', 'State')}
+            </div>
+            <div className="grid gap-4 sm:grid-cols-2">
+              {textField('place', 'Place of signing')}
+              {textField('date', 'Date', { type: 'date' })}
+            </div>
+          </>
+        );
+      default:
+        return null;
+    }
+  };
+
+  if (step === REVIEW_STEP) {
+    const bundle = buildComplaintBundle(form.getValues());
+    return (
+      <Card>
+        <CardHeader className="flex flex-row flex-wrap items-center justify-between gap-2 space-y-0">
+          <div>
+            <CardTitle className="text-lg">Your complaint bundle</CardTitle>
+            <CardDescription>
+              Index, complaint and affidavit, ready for the {tier?.label ?? 'Commission'}. Sign every page and have the
+              affidavit attested by a Notary or Oath Commissioner.
+            </CardDescription>
+          </div>
+          <div className="flex flex-wrap gap-2">
+            <Button variant="ghost" size="sm" className="gap-2" onClick={() => setStep(0)}>
+              <Pencil className="h-4 w-4" />
+              Edit
+            </Button>
+            <DraftActions title={template.title} fileName={template.slug} documents={bundle.map(part => part.text)} />
+          </div>
+        </CardHeader>
+        <CardContent>
+          <Tabs defaultValue={bundle[1].title}>
+            <TabsList>
+              {bundle.map(part => (
+                <TabsTrigger key={part.title} value={part.title}>{part.title}</TabsTrigger>
+              ))}
+            </TabsList>
+            {bundle.map(part => (
+              <TabsContent key={part.title} value={part.title}>
+                <pre className="whitespace-pre-wrap font-serif text-sm leading-relaxed">{part.text}</pre>
+              </TabsContent>
+            ))}
+          </Tabs>
+          <p className="mt-4 text-xs text-muted-foreground">
+            Most Commissions also accept complaints online through e-Daakhil (edaakhil.nic.in). {DISCLAIMER}
+          </p>
+        </CardContent>
+      </Card>
+    );
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <WizardSteps steps={STEPS} current={step} />
+        <CardTitle className="text-lg">{STEPS[step].title}</CardTitle>
+        <CardDescription>{STEPS[step].description}</CardDescription>
+      </CardHeader>
+      <CardContent>
+        <Form {...form}>
+          <form
+            className="space-y-4"
+            onSubmit={(e) => {
+              e.preventDefault();
+              handleNext();
+            }}
+          >
+            {renderStep()}
+            <div className="flex justify-between pt-2">
+              <Button
+                type="button"
+                variant="ghost"
+                className="gap-2"
+                onClick={() => setStep(step - 1)}
+                disabled={step === 0}
+              >
+                <ArrowLeft className="h-4 w-4" />
+                Back
+              </Button>
+              <Button type="submit" className="gap-2">
+                {step === REVIEW_STEP - 1 ? 'Review complaint' : 'Next'}
+                <ArrowRight className="h-4 w-4" />
+              </Button>
+            </div>
+          </form>
+        </Form>
+      </CardContent>
+    </Card>
+  );
+};
+
+export default ConsumerComplaintWizard;
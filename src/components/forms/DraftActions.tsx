@@ -0,0 +1,74 @@
+import { useState } from "react";
+import { Copy, FileDown, Loader2, Printer } from "lucide-react";
+import { toast } from "sonner";
+import { Button } from "@/components/ui/button";
+import { downloadBlob } from "@/lib/export/download";
+import { documentsToPdf } from "@/lib/export/document-pdf";
+import { hasUnsupportedPdfCharacters } from "@/lib/export/pdf-support";
+import { printDocuments } from "@/lib/export/print";
+import { todayInputValue } from "@/lib/templates";
+
+interface DraftActionsProps {
+  title: string;
+  // Download name without extension, e.g. the template slug
+  fileName: string;
+  documents: string[];
+  disabled?: boolean;
+}
+
+// Copy, print and PDF download for drafted documents. Multi-part drafts (a complaint
+// with its affidavit and index) print and download as one bundle, a page break apart.
+const DraftActions = ({ title, fileName, documents, disabled }: DraftActionsProps) => {
+  const [exporting, setExporting] = useState(false);
+
+  const handleCopy = async () => {
+    try {
+      await navigator.clipboard.writeText(documents.join('\n\n\n'));
+      toast.success('Draft copied');
+    } catch {
+      toast.error('Could not copy the draft');
+    }
+  };
+
+  const handleDownload = async () => {
+    if (documents.some(hasUnsupportedPdfCharacters)) {
+      toast.error("PDF can't show Hindi, other Indian scripts or symbols such as ₹ yet. Use Print and save as PDF instead.");
+      return;
+    }
+
+    setExporting(true);
+    try {
+      downloadBlob(await documentsToPdf(documents), `${fileName}-${todayInputValue()}.pdf`);
+    } catch (error) {
+      console.error('Error exporting PDF:', error);
+      toast.error('Failed to create the PDF');
+    } finally {
+      setExporting(false);
+    }
+  };
+
+  return (
+    <div className="flex flex-wrap gap-2">
+      <Button variant="outline" size="sm" className="gap-2" onClick={handleCopy} disabled={disabled}>
+        <Copy className="h-4 w-4" />
+        Copy
+      </Button>
+      <Button
+        variant="outline"
+        size="sm"
+        className="gap-2"
+        onClick={() => printDocuments(title, documents)}
+        disabled={disabled}
+      >
+        <Printer className="h-4 w-4" />
+        Print
+      </Button>
+      <Button size="sm" className="gap-2" onClick={handleDownload} disabled={disabled || exporting}>
+        {exporting ? <Loader2 className="h-4 w-4 animate-spin" /> : <FileDown className="h-4 w-4" />}
+        Download PDF
+      </Button>
+    </div>
+  );
+};
+
+export default DraftActions;
@@ -0,0 +1,388 @@
+import { useState } from "react";
+import { useNavigate } from "react-router-dom";
+import { FieldErrors, useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { ArrowLeft, ArrowRight, Loader2, Pencil, Send } from "lucide-react";
+import { toast } from "sonner";
+import { supabase } from "@/integrations/supabase/client";
+import type { Json } from "@/integrations/supabase/types";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Form, FormControl, FormDescription, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
+import DraftActions from "@/components/forms/DraftActions";
+import WizardSteps from "@/components/forms/WizardSteps";
+import type { GuidedFormProps } from "@/components/forms/guided";
+import { DISCLAIMER } from "@/lib/export/brief";
+import { todayInputValue } from "@/lib/templates";
+import {
+  CHEQUE_NOTICE_DAYS,
+  CHEQUE_PAYMENT_DAYS,
+  DISHONOUR_REASONS,
+  NOTICE_SCENARIOS,
+  NoticeRecord,
+  NoticeValues,
+  buildNotice,
+  noticePrefill,
+  noticeSchema,
+  noticeTitle,
+} from "@/lib/forms/notice";
+
+const STEPS: { title: string; description: string; fields: (keyof NoticeValues)[] }[] = [
+  {
+    title: 'Type of notice',
+    description: 'Each type uses wording and waiting periods suited to the claim.',
+    fields: ['scenario'],
+  },
+  {
+    title: 'Parties',
+    description: 'You send the notice; the person or company who owes you receives it.',
+    fields: ['senderName', 'senderAddress', 'recipientName', 'recipientAddress'],
+  },
+  {
+    title: 'Details',
+    description: 'The facts of your claim and what you demand.',
+    fields: [],
+  },
+];
+
+const REVIEW_STEP = STEPS.length;
+
+const defaultValues: NoticeValues = {
+  scenario: 'salary',
+  senderName: '',
+  senderAddress: '',
+  recipientName: '',
+  recipientAddress: '',
+  amount: '',
+  complianceDays: '15',
+  designation: '',
+  employedFrom: '',
+  employedUntil: '',
+  salaryPeriod: '',
+  premisesAddress: '',
+  agreementDate: '',
+  vacatedOn: '',
+  deductionsDisputed: '',
+  chequeNumber: '',
+  chequeDate: '',
+  bankName: '',
+  liability: '',
+  dishonourReason: '',
+  returnMemoReceivedOn: '',
+  facts: '',
+  demand: '',
+  date: todayInputValue(),
+};
+
+type TextFieldName = Exclude<keyof NoticeValues, 'scenario' | 'dishonourReason'>;
+
+// Drafts the notice, then saves it as a 'notice' saved item so the user can record when it
+// was sent and see the response deadline on the notice page.
+const NoticeBuilder = ({ template, prefill }: GuidedFormProps) => {
+  const [step, setStep] = useState(0);
+  const [saving, setSaving] = useState(false);
+  const navigate = useNavigate();
+  const form = useForm<NoticeValues>({
+    resolver: zodResolver(noticeSchema),
+    defaultValues: { ...defaultValues, ...(prefill && noticePrefill(prefill)) },
+  });
+  const scenario = form.watch('scenario');
+
+  const showFirstInvalidStep = (errors: FieldErrors<NoticeValues>) => {
+    const invalid = STEPS.findIndex(({ fields }) => fields.some(field => errors[field]));
+    setStep(invalid === -1 ? REVIEW_STEP - 1 : invalid);
+  };
+
+  // The details step's required fields depend on the scenario, so it validates the whole form.
+  const handleNext = async () => {
+    if (step === REVIEW_STEP - 1) {
+      await form.handleSubmit(() => setStep(REVIEW_STEP), showFirstInvalidStep)();
+      return;
+    }
+    if (await form.trigger(STEPS[step].fields)) setStep(step + 1);
+  };
+
+  const handleSave = async () => {
+    setSaving(true);
+    const { data: { user } } = await supabase.auth.getUser();
+    if (!user) {
+      setSaving(false);
+      toast.error('Please sign in to save and track notices');
+      return;
+    }
+
+    const values = form.getValues();
+    const record: NoticeRecord = { values, dispatch: null };
+    const { data, error } = await supabase
+      .from('saved_items')
+      .insert({
+        user_id: user.id,
+        item_type: 'notice',
+        title: noticeTitle(values),
+        content: buildNotice(values),
+        data: record as unknown as Json,
+      })
+      .select('id')
+      .single();
+
+    setSaving(false);
+    if (error) {
+      console.error('Error saving notice:', error);
+      toast.error('Failed to save notice');
+      return;
+    }
+
+    toast.success('Notice saved. Record the dispatch once you send it.');
+    navigate(`/notices/${data.id}`);
+  };
+
+  const textField = (name: TextFieldName, label: string, options: { description?: string; placeholder?: string; type?: string; multiline?: boolean } = {}) => (
+    <FormField
+      control={form.control}
+      name={name}
+      render={({ field }) => (
+        <FormItem>
+          <FormLabel>{label}</FormLabel>
+          <FormControl>
+            {options.multiline ? (
+              <Textarea {...field} rows={3} placeholder={options.placeholder} />
+            ) : (
+              <Input {...field} type={options.type} placeholder={options.placeholder} />
+            )}
+          </FormControl>
+          {options.description && <FormDescription>{options.description}</FormDescription>}
+          <FormMessage />
+        </FormItem>
+      )}
+    />
+  );
+
+  const renderDetails = () => {
+    switch (scenario) {
+      case 'general':
+        return (
+          <>
+            {textField('facts', 'What happened', {
+              multiline: true,
+              description: 'Give dates, amounts and what was agreed.',
+            })}
+            {textField('demand', 'What you demand', {
+              multiline: true,
+              placeholder: 'repay the loan of Rs. 50,000 taken on 05/02/2025',
+            })}
+          </>
+        );
+      case 'salary':
+        return (
+          <>
+            {textField('designation', 'Your job title')}
+            <div className="grid gap-4 sm:grid-cols-2">
+              {textField('employedFrom', 'Joined on', { type: 'date' })}
+              {textField('employedUntil', 'Left on (if you have left)', { type: 'date' })}
+            </div>
+            {textField('salaryPeriod', 'Unpaid period', { placeholder: 'March to May 2025' })}
+            {textField('amount', 'Total amount due (Rs.)', { type: 'number' })}
+          </>
+        );
+      case 'deposit':
+        return (
+          <>
+            {textField('premisesAddress', 'Address of the rented premises', { multiline: true })}
+            <div className="grid gap-4 sm:grid-cols-2">
+              {textField('agreementDate', 'Rent agreement date (optional)', { type: 'date' })}
+              {textField('vacatedOn', 'Handed back possession on', { type: 'date' })}
+            </div>
+            {textField('amount', 'Deposit to be refunded (Rs.)', { type: 'number' })}
+            {textField('deductionsDisputed', 'Deductions the landlord claims that you dispute (optional)', {
+              placeholder: 'repainting and a broken geyser',
+            })}
+          </>
+        );
+      case 'cheque':
+        return (
+          <>
+            <div className="grid gap-4 sm:grid-cols-3">
+              {textField('chequeNumber', 'Cheque number')}
+              {textField('chequeDate', 'Date on the cheque', { type: 'date' })}
+              {textField('amount', 'Cheque amount (Rs.)', { type: 'number' })}
+            </div>
+            {textField('bankName', 'Drawn on (bank and branch)', { placeholder: 'State Bank of India, Karol Bagh branch' })}
+            {textField('liability', 'Given to you for', {
+              placeholder: 'repayment of a friendly loan of Rs. 2,00,000 given on 10/01/2025',
+              description: 'Section 138 applies only to cheques given for a legally enforceable debt or liability.',
+            })}
+            <div className="grid gap-4 sm:grid-cols-2">
+              <FormField
+                control={form.control}
+                name="dishonourReason"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Reason on the return memo</FormLabel>
+                    <Select value={field.value} onValueChange={field.onChange}>
+                      <FormControl>
+                        <SelectTrigger><SelectValue placeholder="Choose" /></SelectTrigger>
+                      </FormControl>
+                      <SelectContent>
+                        {DISHONOUR_REASONS.map(reason => (
+                          <SelectItem key={reason} value={reason}>{reason}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              {textField('returnMemoReceivedOn', 'Return memo received on', {
+                type: 'date',
+                description: `Send the notice within ${CHEQUE_NOTICE_DAYS} days of this date.`,
+              })}
+            </div>
+          </>
+        );
+    }
+  };
+
+  const renderStep = () => {
+    switch (step) {
+      case 0:
+        return (
+          <FormField
+            control={form.control}
+            name="scenario"
+            render={({ field }) => (
+              <FormItem>
+                <FormControl>
+                  <RadioGroup value={field.value} onValueChange={field.onChange} className="gap-3">
+                    {NOTICE_SCENARIOS.map(option => (
+                      <FormItem key={option.value} className="flex items-start gap-3 space-y-0 rounded-md border p-4">
+                        <FormControl><RadioGroupItem value={option.value} className="mt-1" /></FormControl>
+                        <div className="space-y-1">
+                          <FormLabel className="font-medium">{option.label}</FormLabel>
+                          <p className="text-sm text-muted-foreground">{option.description}</p>
+                        </div>
+                      </FormItem>
+                    ))}
+                  </RadioGroup>
+                </FormControl>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+        );
+      case 1:
+        return (
+          <>
+            {textField('senderName', 'Your full name')}
+            {textField('senderAddress', 'Your address', { multiline: true })}
+            {textField('recipientName', 'Recipient', {
+              placeholder: scenario === 'salary' ? 'ABC Pvt. Ltd., through its Managing Director' : undefined,
+            })}
+            {textField('recipientAddress', 'Recipient\'s address', { multiline: true })}
+          </>
+        );
+      case 2:
+        return (
+          <>
+            {renderDetails()}
+            <div className="grid gap-4 sm:grid-cols-2">
+              {scenario === 'cheque' ? (
+                <div className="space-y-2">
+                  <Label>Time to pay</Label>
+                  <p className="text-sm text-muted-foreground">
+                    {CHEQUE_PAYMENT_DAYS} days from receipt, fixed by Section 138(c).
+                  </p>
+                </div>
+              ) : (
+                textField('complianceDays', 'Days to comply', {
+                  type: 'number',
+                  description: '15 days is usual; counted from when they receive the notice.',
+                })
+              )}
+              {textField('date', 'Date of the notice', { type: 'date' })}
+            </div>
+          </>
+        );
+      default:
+        return null;
+    }
+  };
+
+  if (step === REVIEW_STEP) {
+    const values = form.getValues();
+    const notice = buildNotice(values);
+    return (
+      <Card>
+        <CardHeader className="flex flex-row flex-wrap items-center justify-between gap-2 space-y-0">
+          <div>
+            <CardTitle className="text-lg">Your legal notice</CardTitle>
+            <CardDescription>
+              Save it to track when you send it and when the reply is due. Send it by Registered Post A.D. or Speed Post
+              and keep the receipt.
+            </CardDescription>
+          </div>
+          <div className="flex flex-wrap gap-2">
+            <Button variant="ghost" size="sm" className="gap-2" onClick={() => setStep(0)}>
+              <Pencil className="h-4 w-4" />
+              Edit
+            </Button>
+            <DraftActions title={noticeTitle(values)} fileName={template.slug} documents={[notice]} />
+            <Button size="sm" variant="secondary" className="gap-2" onClick={handleSave} disabled={saving}>
+              {saving ? <Loader2 className="h-4 w-4 animate-spin" /> : <Send className="h-4 w-4" />}
+              Save and track
+            </Button>
+          </div>
+        </CardHeader>
+        <CardContent>
+          <pre className="whitespace-pre-wrap font-serif text-sm leading-relaxed">{notice}</pre>
+          <p className="mt-4 text-xs text-muted-foreground">{DISCLAIMER}</p>
+        </CardContent>
+      </Card>
+    );
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <WizardSteps steps={STEPS} current={step} />
+        <CardTitle className="text-lg">{STEPS[step].title}</CardTitle>
+        <CardDescription>{STEPS[step].description}</CardDescription>
+      </CardHeader>
+      <CardContent>
+        <Form {...form}>
+          <form
+            className="space-y-4"
+            onSubmit={(e) => {
+              e.preventDefault();
+              handleNext();
+            }}
+          >
+            {renderStep()}
+            <div className="flex justify-between pt-2">
+              <Button
+                type="button"
+                variant="ghost"
+                className="gap-2"
+                onClick={() => setStep(step - 1)}
+                disabled={step === 0}
+              >
+                <ArrowLeft className="h-4 w-4" />
+                Back
+              </Button>
+              <Button type="submit" className="gap-2">
+                {step === REVIEW_STEP - 1 ? 'Review notice' : 'Next'}
+                <ArrowRight className="h-4 w-4" />
+              </Button>
+            </div>
+          </form>
+        </Form>
+      </CardContent>
+    </Card>
+  );
+};
+
+export default NoticeBuilder;
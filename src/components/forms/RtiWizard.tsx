@@ -0,0 +1,405 @@
+import { useState } from "react";
+import { FieldErrors, useFieldArray, useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { ArrowLeft, ArrowRight, Pencil, Plus, Trash2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Form, FormControl, FormDescription, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
+import DraftActions from "@/components/forms/DraftActions";
+import WizardSteps from "@/components/forms/WizardSteps";
+import type { GuidedFormProps } from "@/components/forms/guided";
+import { DISCLAIMER } from "@/lib/export/brief";
+import { todayInputValue } from "@/lib/templates";
+import {
+  RTI_CENTRAL_FEE,
+  RTI_DELIVERY_MODES,
+  RTI_FEE_MODES,
+  RTI_WORD_LIMIT,
+  RtiValues,
+  buildRtiApplication,
+  countWords,
+  getFeeMode,
+  rtiPrefill,
+  rtiSchema,
+} from "@/lib/forms/rti";
+
+const STEPS: { title: string; description: string; fields: (keyof RtiValues)[] }[] = [
+  {
+    title: 'Applicant',
+    description: 'The PIO sends the reply to these details.',
+    fields: ['applicantName', 'address', 'pinCode', 'phone', 'email', 'citizen'],
+  },
+  {
+    title: 'Public authority',
+    description: 'Address the application to the Public Information Officer of the office that holds the records.',
+    fields: ['government', 'authorityName', 'authorityAddress'],
+  },
+  {
+    title: 'Information',
+    description: 'Ask for specific records or facts. You do not have to say why you want them.',
+    fields: ['informationItems', 'period', 'deliveryMode', 'lifeOrLiberty', 'lifeOrLibertyReason'],
+  },
+  {
+    title: 'Fee',
+    description: 'Pay the application fee, or claim the exemption for applicants below the poverty line.',
+    fields: ['bpl', 'bplCardNumber', 'bplProofAttached', 'feeAmount', 'feeMode', 'feeReference', 'place', 'date'],
+  },
+];
+
+const REVIEW_STEP = STEPS.length;
+
+const defaultValues: RtiValues = {
+  applicantName: '',
+  address: '',
+  pinCode: '',
+  phone: '',
+  email: '',
+  citizen: false,
+  government: 'central',
+  authorityName: '',
+  authorityAddress: '',
+  informationItems: [{ text: '' }],
+  period: '',
+  deliveryMode: 'post',
+  lifeOrLiberty: false,
+  lifeOrLibertyReason: '',
+  bpl: false,
+  bplCardNumber: '',
+  bplProofAttached: false,
+  feeAmount: RTI_CENTRAL_FEE,
+  feeMode: undefined,
+  feeReference: '',
+  place: '',
+  date: todayInputValue(),
+};
+
+const RtiWizard = ({ template, prefill }: GuidedFormProps) => {
+  const [step, setStep] = useState(0);
+  const form = useForm<RtiValues>({
+    resolver: zodResolver(rtiSchema),
+    defaultValues: { ...defaultValues, ...(prefill && rtiPrefill(prefill)) },
+  });
+  const items = useFieldArray({ control: form.control, name: 'informationItems' });
+
+  const [government, informationItems, lifeOrLiberty, bpl, feeMode] = form.watch([
+    'government',
+    'informationItems',
+    'lifeOrLiberty',
+    'bpl',
+    'feeMode',
+  ]);
+  const wordCount = informationItems.reduce((total, item) => total + countWords(item.text), 0);
+
+  // Some checks span steps (e.g. email delivery needs an email address), so the last step
+  // validates everything and sends the user back to the first step with a problem.
+  const showFirstInvalidStep = (errors: FieldErrors<RtiValues>) => {
+    const invalid = STEPS.findIndex(({ fields }) => fields.some(field => errors[field]));
+    setStep(invalid === -1 ? 0 : invalid);
+  };
+
+  const handleNext = async () => {
+    if (step === REVIEW_STEP - 1) {
+      await form.handleSubmit(() => setStep(REVIEW_STEP), showFirstInvalidStep)();
+      return;
+    }
+    if (await form.trigger(STEPS[step].fields)) setStep(step + 1);
+  };
+
+  const textField = (name: 'applicantName' | 'pinCode' | 'phone' | 'email' | 'authorityName' | 'period' | 'bplCardNumber' | 'feeAmount' | 'feeReference' | 'place' | 'date', label: string, options: { description?: string; placeholder?: string; type?: string } = {}) => (
+    <FormField
+      control={form.control}
+      name={name}
+      render={({ field }) => (
+        <FormItem>
+          <FormLabel>{label}</FormLabel>
+          <FormControl>
+            <Input {...field} value={field.value ?? ''} type={options.type} placeholder={options.placeholder} />
+          </FormControl>
+          {options.description && <FormDescription>{options.description}</FormDescription>}
+          <FormMessage />
+        </FormItem>
+      )}
+    />
+  );
+
+  const checkboxField = (name: 'citizen' | 'lifeOrLiberty' | 'bpl' | 'bplProofAttached', label: string, description?: string) => (
+    <FormField
+      control={form.control}
+      name={name}
+      render={({ field }) => (
+        <FormItem className="flex flex-row items-start gap-3 space-y-0 rounded-md border p-4">
+          <FormControl>
+            <Checkbox checked={field.value} onCheckedChange={(checked) => field.onChange(checked === true)} />
+          </FormControl>
+          <div className="space-y-1 leading-none">
+            <FormLabel>{label}</FormLabel>
+            {description && <FormDescription>{description}</FormDescription>}
+            <FormMessage />
+          </div>
+        </FormItem>
+      )}
+    />
+  );
+
+  const textareaField = (name: 'address' | 'authorityAddress' | 'lifeOrLibertyReason', label: string, description?: string) => (
+    <FormField
+      control={form.control}
+      name={name}
+      render={({ field }) => (
+        <FormItem>
+          <FormLabel>{label}</FormLabel>
+          <FormControl>
+            <Textarea {...field} rows={3} />
+          </FormControl>
+          {description && <FormDescription>{description}</FormDescription>}
+          <FormMessage />
+        </FormItem>
+      )}
+    />
+  );
+
+  const renderStep = () => {
+    switch (step) {
+      case 0:
+        return (
+          <>
+            {textField('applicantName', 'Full name')}
+            {textareaField('address', 'Postal address')}
+            <div className="grid gap-4 sm:grid-cols-3">
+              {textField('pinCode', 'PIN code', { placeholder: '110001' })}
+              {textField('phone', 'Mobile (optional)')}
+              {textField('email', 'Email (optional)', { type: 'email' })}
+            </div>
+            {checkboxField('citizen', 'I am a citizen of India', 'Section 3 gives the right to information to citizens only.')}
+          </>
+        );
+      case 1:
+        return (
+          <>
+            <FormField
+              control={form.control}
+              name="government"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>The office belongs to</FormLabel>
+                  <FormControl>
+                    <RadioGroup value={field.value} onValueChange={field.onChange} className="flex gap-6">
+                      <FormItem className="flex items-center gap-2 space-y-0">
+                        <FormControl><RadioGroupItem value="central" /></FormControl>
+                        <FormLabel className="font-normal">Central Government</FormLabel>
+                      </FormItem>
+                      <FormItem className="flex items-center gap-2 space-y-0">
+                        <FormControl><RadioGroupItem value="state" /></FormControl>
+                        <FormLabel className="font-normal">State Government</FormLabel>
+                      </FormItem>
+                    </RadioGroup>
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+            {textField('authorityName', 'Department or office', { placeholder: 'Office of the Commissioner, Municipal Corporation of Delhi' })}
+            {textareaField('authorityAddress', 'Office address')}
+          </>
+        );
+      case 2:
+        return (
+          <>
+            <div className="space-y-3">
+              <Label>Information you want</Label>
+              {items.fields.map((item, index) => (
+                <FormField
+                  key={item.id}
+                  control={form.control}
+                  name={`informationItems.${index}.text`}
+                  render={({ field }) => (
+                    <FormItem>
+                      <div className="flex gap-2">
+                        <FormControl>
+                          <Textarea
+                            {...field}
+                            rows={2}
+                            placeholder="Certified copy of the sanction order for road repairs in Ward 12"
+                          />
+                        </FormControl>
+                        {items.fields.length > 1 && (
+                          <Button
+                            type="button"
+                            variant="ghost"
+                            size="icon"
+                            onClick={() => items.remove(index)}
+                            aria-label="Remove item"
+                          >
+                            <Trash2 className="h-4 w-4" />
+                          </Button>
+                        )}
+                      </div>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+              ))}
+              <div className="flex items-center justify-between gap-2">
+                <Button type="button" variant="outline" size="sm" className="gap-2" onClick={() => items.append({ text: '' })}>
+                  <Plus className="h-4 w-4" />
+                  Add item
+                </Button>
+                <span className={`text-xs ${wordCount > RTI_WORD_LIMIT ? 'text-destructive' : 'text-muted-foreground'}`}>
+                  {wordCount} / {RTI_WORD_LIMIT} words
+                </span>
+              </div>
+              {wordCount > RTI_WORD_LIMIT && (
+                <p className="text-xs text-destructive">
+                  RTI applications should stay within {RTI_WORD_LIMIT} words. Consider splitting this into two applications.
+                </p>
+              )}
+            </div>
+            {textField('period', 'Period (optional)', { placeholder: '01/04/2024 to 31/03/2025' })}
+            <FormField
+              control={form.control}
+              name="deliveryMode"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>How you want the information</FormLabel>
+                  <Select value={field.value} onValueChange={field.onChange}>
+                    <FormControl>
+                      <SelectTrigger><SelectValue /></SelectTrigger>
+                    </FormControl>
+                    <SelectContent>
+                      {RTI_DELIVERY_MODES.map(mode => (
+                        <SelectItem key={mode.value} value={mode.value}>{mode.label}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  <FormDescription>Copies cost Rs. 2 per page; inspection is free for the first hour.</FormDescription>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+            {checkboxField('lifeOrLiberty', 'This concerns someone\'s life or liberty', 'The PIO must then reply within 48 hours instead of 30 days.')}
+            {lifeOrLiberty && textareaField('lifeOrLibertyReason', 'Why it concerns life or liberty')}
+          </>
+        );
+      case 3:
+        return (
+          <>
+            {checkboxField('bpl', 'I am below the poverty line (BPL)', 'BPL applicants pay no fee under Section 7(5).')}
+            {bpl ? (
+              <>
+                {textField('bplCardNumber', 'BPL card or certificate number')}
+                {checkboxField('bplProofAttached', 'I will attach a copy of my BPL card', 'Without proof, the PIO can ask you to pay the fee.')}
+              </>
+            ) : (
+              <div className="grid gap-4 sm:grid-cols-3">
+                {textField('feeAmount', 'Fee (Rs.)', {
+                  type: 'number',
+                  description: government === 'state' ? 'Check your state\'s RTI rules for the fee.' : 'Rs. 10 for central public authorities.',
+                })}
+                <FormField
+                  control={form.control}
+                  name="feeMode"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Paid by</FormLabel>
+                      <Select value={field.value} onValueChange={field.onChange}>
+                        <FormControl>
+                          <SelectTrigger><SelectValue placeholder="Choose" /></SelectTrigger>
+                        </FormControl>
+                        <SelectContent>
+                          {RTI_FEE_MODES.map(mode => (
+                            <SelectItem key={mode.value} value={mode.value}>{mode.label}</SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+                {textField('feeReference', feeMode ? getFeeMode(feeMode).reference : 'Reference number')}
+              </div>
+            )}
+            <div className="grid gap-4 sm:grid-cols-2">
+              {textField('place', 'Place')}
+              {textField('date', 'Date', { type: 'date' })}
+            </div>
+          </>
+        );
+      default:
+        return null;
+    }
+  };
+
+  if (step === REVIEW_STEP) {
+    const application = buildRtiApplication(form.getValues());
+    return (
+      <Card>
+        <CardHeader className="flex flex-row flex-wrap items-center justify-between gap-2 space-y-0">
+          <div>
+            <CardTitle className="text-lg">Your RTI application</CardTitle>
+            <CardDescription>Print it, sign it and send it to the PIO with the fee or BPL proof.</CardDescription>
+          </div>
+          <div className="flex flex-wrap gap-2">
+            <Button variant="ghost" size="sm" className="gap-2" onClick={() => setStep(0)}>
+              <Pencil className="h-4 w-4" />
+              Edit
+            </Button>
+            <DraftActions title={template.title} fileName={template.slug} documents={[application]} />
+          </div>
+        </CardHeader>
+        <CardContent>
+          <pre className="whitespace-pre-wrap font-serif text-sm leading-relaxed">{application}</pre>
+          <p className="mt-4 text-xs text-muted-foreground">
+            Keep a copy and proof of posting. If you get no reply in 30 days, you can file a first appeal under Section 19(1). {DISCLAIMER}
+          </p>
+        </CardContent>
+      </Card>
+    );
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <WizardSteps steps={STEPS} current={step} />
+        <CardTitle className="text-lg">{STEPS[step].title}</CardTitle>
+        <CardDescription>{STEPS[step].description}</CardDescription>
+      </CardHeader>
+      <CardContent>
+        <Form {...form}>
+          <form
+            className="space-y-4"
+            onSubmit={(e) => {
+              e.preventDefault();
+              handleNext();
+            }}
+          >
+            {renderStep()}
+            <div className="flex justify-between pt-2">
+              <Button
+                type="button"
+                variant="ghost"
+                className="gap-2"
+                onClick={() => setStep(step - 1)}
+                disabled={step === 0}
+              >
+                <ArrowLeft className="h-4 w-4" />
+                Back
+              </Button>
+              <Button type="submit" className="gap-2">
+                {step === REVIEW_STEP - 1 ? 'Review application' : 'Next'}
+                <ArrowRight className="h-4 w-4" />
+              </Button>
+            </div>
+          </form>
+        </Form>
+      </CardContent>
+    </Card>
+  );
+};
+
+export default RtiWizard;
@@ -0,0 +1,26 @@
+interface WizardStepsProps {
+  steps: { title: string }[];
+  current: number;
+}
+
+const WizardSteps = ({ steps, current }: WizardStepsProps) => (
+  <ol className="flex flex-wrap gap-2 mb-2" aria-label="Steps">
+    {steps.map((item, index) => (
+      <li
+        key={item.title}
+        aria-current={index === current ? 'step' : undefined}
+        className={`rounded-full px-3 py-1 text-xs font-medium ${
+          index === current
+            ? 'bg-primary text-primary-foreground'
+            : index < current
+              ? 'bg-primary/10 text-primary'
+              : 'bg-muted text-muted-foreground'
+        }`}
+      >
+        {index + 1}. {item.title}
+      </li>
+    ))}
+  </ol>
+);
+
+export default WizardSteps;
@@ -0,0 +1,19 @@
+import type { ComponentType } from "react";
+import type { LegalTemplate, TemplateValues } from "@/lib/templates";
+import RtiWizard from "@/components/forms/RtiWizard";
+import ConsumerComplaintWizard from "@/components/forms/ConsumerComplaintWizard";
+import NoticeBuilder from "@/components/forms/NoticeBuilder";
+
+export interface GuidedFormProps {
+  template: LegalTemplate;
+  // Template field values suggested from a chat conversation, keyed by template field name
+  prefill?: TemplateValues;
+}
+
+// Templates with a step-by-step generator that validates the legal requirements, keyed
+// by slug. FormDetail renders these instead of the generic field list.
+export const GUIDED_FORMS: Record<string, ComponentType<GuidedFormProps>> = {
+  'rti-application': RtiWizard,
+  'consumer-complaint': ConsumerComplaintWizard,
+  'legal-notice': NoticeBuilder,
+};
@@ -18,25 +18,45 @@ export type Database = {
         Row: {
           created_at: string
           id: string
+          language: string | null
+          summary: string | null
+          summary_through_message_id: string | null
           title: string
+          title_is_custom: boolean
           updated_at: string
           user_id: string
         }
         Insert: {
           created_at?: string
           id?: string
+          language?: string | null
+          summary?: string | null
+          summary_through_message_id?: string | null
           title?: string
+          title_is_custom?: boolean
           updated_at?: string
           user_id: string
         }
         Update: {
           created_at?: string
           id?: string
+          language?: string | null
+          summary?: string | null
+          summary_through_message_id?: string | null
           title?: string
+          title_is_custom?: boolean
           updated_at?: string
           user_id?: string
         }
-        Relationships: []
+        Relationships: [
+          {
+            foreignKeyName: "chat_conversations_summary_through_message_id_fkey"
+            columns: ["summary_through_message_id"]
+            isOneToOne: false
+            referencedRelation: "chat_messages"
+            referencedColumns: ["id"]
+          },
+        ]
       }
       chat_messages: {
         Row: {
@@ -44,21 +64,36 @@ export type Database = {
           conversation_id: string
           created_at: string
           id: string
+          metadata: Json
+          parent_id: string | null
+          retrieved_sections: string[]
           role: string
+          search_vector: unknown | null
+          truncated: boolean
         }
         Insert: {
           content: string
           conversation_id: string
           created_at?: string
           id?: string
+          metadata?: Json
+          parent_id?: string | null
+          retrieved_sections?: string[]
           role: string
+          search_vector?: unknown | null
+          truncated?: boolean
         }
         Update: {
           content?: string
           conversation_id?: string
           created_at?: string
           id?: string
+          metadata?: Json
+          parent_id?: string | null
+          retrieved_sections?: string[]
           role?: string
+          search_vector?: unknown | null
+          truncated?: boolean
         }
         Relationships: [
           {
@@ -68,8 +103,95 @@ export type Database = {
             referencedRelation: "chat_conversations"
             referencedColumns: ["id"]
           },
+          {
+            foreignKeyName: "chat_messages_parent_id_fkey"
+            columns: ["parent_id"]
+            isOneToOne: false
+            referencedRelation: "chat_messages"
+            referencedColumns: ["id"]
+          },
         ]
       }
+      conversation_shares: {
+        Row: {
+          conversation_id: string
+          created_at: string
+          expires_at: string | null
+          id: string
+          revoked_at: string | null
+          token: string
+          user_id: string
+        }
+        Insert: {
+          conversation_id: string
+          created_at?: string
+          expires_at?: string | null
+          id?: string
+          revoked_at?: string | null
+          token?: string
+          user_id: string
+        }
+        Update: {
+          conversation_id?: string
+          created_at?: string
+          expires_at?: string | null
+          id?: string
+          revoked_at?: string | null
+          token?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "conversation_shares_conversation_id_fkey"
+            columns: ["conversation_id"]
+            isOneToOne: false
+            referencedRelation: "chat_conversations"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      legal_templates: {
+        Row: {
+          body: string
+          category: string
+          created_at: string
+          description: string
+          fields: Json
+          id: string
+          jurisdiction: string
+          language: string
+          slug: string
+          title: string
+          updated_at: string
+        }
+        Insert: {
+          body: string
+          category: string
+          created_at?: string
+          description: string
+          fields?: Json
+          id?: string
+          jurisdiction?: string
+          language?: string
+          slug: string
+          title: string
+          updated_at?: string
+        }
+        Update: {
+          body?: string
+          category?: string
+          created_at?: string
+          description?: string
+          fields?: Json
+          id?: string
+          jurisdiction?: string
+          language?: string
+          slug?: string
+          title?: string
+          updated_at?: string
+        }
+        Relationships: []
+      }
       profiles: {
         Row: {
           created_at: string
@@ -94,32 +216,113 @@ export type Database = {
         }
         Relationships: []
       }
+      rate_limit_buckets: {
+        Row: {
+          key: string
+          tokens: number
+          updated_at: string
+        }
+        Insert: {
+          key: string
+          tokens: number
+          updated_at?: string
+        }
+        Update: {
+          key?: string
+          tokens?: number
+          updated_at?: string
+        }
+        Relationships: []
+      }
       saved_items: {
         Row: {
           content: string | null
           created_at: string
+          data: Json | null
           id: string
           item_id: string | null
           item_type: string
           title: string
+          updated_at: string
           user_id: string
         }
         Insert: {
           content?: string | null
           created_at?: string
+          data?: Json | null
           id?: string
           item_id?: string | null
           item_type: string
           title: string
+          updated_at?: string
           user_id: string
         }
         Update: {
           content?: string | null
           created_at?: string
+          data?: Json | null
           id?: string
           item_id?: string | null
           item_type?: string
           title?: string
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: []
+      }
+      statutes: {
+        Row: {
+          act: string
+          act_short_name: string
+          corresponds_to: string[]
+          effective_from: string | null
+          effective_to: string | null
+          id: string
+          search_vector: unknown | null
+          section_number: string
+          text: string
+          title: string
+        }
+        Insert: {
+          act: string
+          act_short_name: string
+          corresponds_to?: string[]
+          effective_from?: string | null
+          effective_to?: string | null
+          id: string
+          search_vector?: unknown | null
+          section_number: string
+          text: string
+          title: string
+        }
+        Update: {
+          act?: string
+          act_short_name?: string
+          corresponds_to?: string[]
+          effective_from?: string | null
+          effective_to?: string | null
+          id?: string
+          search_vector?: unknown | null
+          section_number?: string
+          text?: string
+          title?: string
+        }
+        Relationships: []
+      }
+      usage_daily: {
+        Row: {
+          day: string
+          tokens_used: number
+          user_id: string
+        }
+        Insert: {
+          day?: string
+          tokens_used?: number
+          user_id: string
+        }
+        Update: {
+          day?: string
+          tokens_used?: number
           user_id?: string
         }
         Relationships: []
@@ -129,7 +332,55 @@ export type Database = {
       [_ in never]: never
     }
     Functions: {
-      [_ in never]: never
+      consume_daily_tokens: {
+        Args: { p_daily_limit?: number; p_tokens: number; p_user_id: string }
+        Returns: {
+          allowed: boolean
+          retry_after_seconds: number
+        }[]
+      }
+      consume_rate_limit: {
+        Args: {
+          p_capacity: number
+          p_cost?: number
+          p_key: string
+          p_refill_per_second: number
+        }
+        Returns: {
+          allowed: boolean
+          retry_after_seconds: number
+        }[]
+      }
+      get_shared_conversation: {
+        Args: { p_token: string }
+        Returns: Json
+      }
+      search_messages: {
+        Args: { p_limit?: number; p_query: string }
+        Returns: {
+          conversation_id: string
+          conversation_title: string
+          created_at: string
+          message_id: string
+          rank: number
+          role: string
+          snippet: string
+        }[]
+      }
+      search_statutes: {
+        Args: { p_match_count?: number; p_query: string }
+        Returns: {
+          act: string
+          act_short_name: string
+          effective_from: string
+          effective_to: string
+          id: string
+          rank: number
+          section_number: string
+          text: string
+          title: string
+        }[]
+      }
     }
     Enums: {
       [_ in never]: never
@@ -0,0 +1,94 @@
+import { describe, expect, it } from "vitest";
+import { ChatNode, getActivePath, getSiblingInfo, ROOT_KEY, selectPathTo } from "@/lib/chat-tree";
+
+let clock = 0;
+const node = (id: string, parentId: string | null, role: ChatNode['role'] = 'user'): ChatNode => ({
+  id,
+  parentId,
+  role,
+  content: id,
+  createdAt: new Date(Date.UTC(2024, 0, 1, 0, 0, clock++)).toISOString(),
+});
+
+const ids = (nodes: ChatNode[]) => nodes.map((n) => n.id);
+
+// q1 -> a1 -> q2 -> a2, then a1 regenerated twice (a1b, a1c) and q2 edited (q2b).
+const thread = () => {
+  clock = 0;
+  return [
+    node('q1', null),
+    node('a1', 'q1', 'assistant'),
+    node('q2', 'a1'),
+    node('a2', 'q2', 'assistant'),
+    node('a1b', 'q1', 'assistant'),
+    node('a1c', 'q1', 'assistant'),
+    node('q2b', 'a1'),
+  ];
+};
+
+describe('getActivePath', () => {
+  it('follows a linear thread from the root', () => {
+    const nodes = thread().slice(0, 4);
+    expect(ids(getActivePath(nodes, {}))).toEqual(['q1', 'a1', 'q2', 'a2']);
+  });
+
+  it('shows the newest variant when nothing is selected', () => {
+    expect(ids(getActivePath(thread(), {}))).toEqual(['q1', 'a1c']);
+  });
+
+  it('follows the selected variant at each level', () => {
+    expect(ids(getActivePath(thread(), { q1: 'a1' }))).toEqual(['q1', 'a1', 'q2b']);
+    expect(ids(getActivePath(thread(), { q1: 'a1', a1: 'q2' }))).toEqual(['q1', 'a1', 'q2', 'a2']);
+  });
+
+  it('falls back to the newest variant when the selected one is gone', () => {
+    expect(ids(getActivePath(thread(), { q1: 'deleted' }))).toEqual(['q1', 'a1c']);
+  });
+
+  it('returns an empty path for an empty conversation', () => {
+    expect(getActivePath([], {})).toEqual([]);
+  });
+
+  it('leaves out nodes whose parent is missing', () => {
+    const nodes = [...thread().slice(0, 2), node('orphan', 'missing', 'assistant')];
+    expect(ids(getActivePath(nodes, {}))).toEqual(['q1', 'a1']);
+  });
+});
+
+describe('getSiblingInfo', () => {
+  it('counts regenerated answers as siblings in creation order', () => {
+    const nodes = thread();
+    const info = getSiblingInfo(nodes, nodes.find((n) => n.id === 'a1b')!);
+    expect(ids(info.siblings)).toEqual(['a1', 'a1b', 'a1c']);
+    expect(info).toMatchObject({ index: 1, count: 3 });
+  });
+
+  it('treats first messages as siblings under the root', () => {
+    clock = 0;
+    const nodes = [node('q1', null), node('q1b', null)];
+    expect(getSiblingInfo(nodes, nodes[0])).toMatchObject({ index: 0, count: 2 });
+  });
+});
+
+describe('selectPathTo', () => {
+  it('selects a non-latest branch and every ancestor of it', () => {
+    const nodes = thread();
+    const selection = selectPathTo(nodes, {}, 'a2');
+    expect(selection).toEqual({ [ROOT_KEY]: 'q1', q1: 'a1', a1: 'q2', q2: 'a2' });
+    expect(ids(getActivePath(nodes, selection))).toEqual(['q1', 'a1', 'q2', 'a2']);
+  });
+
+  it('keeps selections on other levels', () => {
+    expect(selectPathTo(thread(), { other: 'x' }, 'a1b')).toEqual({ other: 'x', [ROOT_KEY]: 'q1', q1: 'a1b' });
+  });
+
+  it('stops at a node whose parent is missing', () => {
+    const nodes = [...thread(), node('orphan', 'missing', 'assistant')];
+    expect(selectPathTo(nodes, {}, 'orphan')).toEqual({ missing: 'orphan' });
+  });
+
+  it('returns the selection unchanged for an unknown node', () => {
+    const selection = { q1: 'a1' };
+    expect(selectPathTo(thread(), selection, 'unknown')).toEqual(selection);
+  });
+});
@@ -0,0 +1,62 @@
+import type { SuggestionEvent } from "@/lib/legal-chat/protocol";
+
+export interface ChatNode {
+  id: string;
+  parentId: string | null;
+  role: 'user' | 'assistant';
+  content: string;
+  createdAt: string;
+  sources?: string[];
+  truncated?: boolean;
+  // Shown but never stored server-side (the stream failed), so it can't be replied to
+  unsaved?: boolean;
+  // Template the answer offered to draft (chat_messages.metadata.suggestion)
+  suggestion?: SuggestionEvent;
+}
+
+// Which child is shown under each parent. Keyed by parent id, ROOT_KEY for first messages.
+export type BranchSelection = Record<string, string>;
+
+export const ROOT_KEY = 'root';
+
+const parentKey = (node: Pick<ChatNode, 'parentId'>) => node.parentId ?? ROOT_KEY;
+
+export const getChildren = (nodes: ChatNode[], key: string) =>
+  nodes
+    .filter((node) => parentKey(node) === key)
+    .sort((a, b) => a.createdAt.localeCompare(b.createdAt));
+
+// Walks from the root, following the selected child at each level and falling back to
+// the newest one, so a fresh regeneration or edit is what the user sees by default.
+export const getActivePath = (nodes: ChatNode[], selection: BranchSelection): ChatNode[] => {
+  const path: ChatNode[] = [];
+  let key = ROOT_KEY;
+
+  while (true) {
+    const children = getChildren(nodes, key);
+    if (children.length === 0) return path;
+
+    const next = children.find((child) => child.id === selection[key]) ?? children[children.length - 1];
+    path.push(next);
+    key = next.id;
+  }
+};
+
+// The node's position among its variants, e.g. { index: 1, count: 3 } renders as "2/3".
+export const getSiblingInfo = (nodes: ChatNode[], node: ChatNode) => {
+  const siblings = getChildren(nodes, parentKey(node));
+  return { siblings, index: siblings.findIndex((sibling) => sibling.id === node.id), count: siblings.length };
+};
+
+// Selection that makes `node` (and every ancestor) part of the active path.
+export const selectPathTo = (nodes: ChatNode[], selection: BranchSelection, nodeId: string): BranchSelection => {
+  const byId = new Map(nodes.map((node) => [node.id, node]));
+  const next = { ...selection };
+
+  let node = byId.get(nodeId);
+  while (node) {
+    next[parentKey(node)] = node.id;
+    node = node.parentId ? byId.get(node.parentId) : undefined;
+  }
+  return next;
+};
@@ -0,0 +1,70 @@
+import { describe, expect, it } from "vitest";
+import { extractCitations } from "@/lib/citations";
+
+// Act and section of each citation, in the order they were found.
+const summarize = (text: string) =>
+  extractCitations(text).map(({ actName, sectionNumber, section }) => ({ actName, sectionNumber, verified: Boolean(section) }));
+
+describe('extractCitations', () => {
+  it('finds a section followed by its act', () => {
+    expect(summarize('Cheque bounce is an offence under Section 138 of the Negotiable Instruments Act, 1881.')).toEqual([
+      { actName: 'NI Act', sectionNumber: '138', verified: true },
+    ]);
+  });
+
+  it('finds an act followed by its section', () => {
+    expect(summarize('Theft is punishable under IPC Section 379 and BNS s. 303.')).toEqual([
+      { actName: 'IPC', sectionNumber: '379', verified: true },
+      { actName: 'BNS', sectionNumber: '303', verified: true },
+    ]);
+  });
+
+  it('accepts abbreviated section keywords and act names', () => {
+    expect(summarize('File a complaint u/s 156(3) CrPC, or see Sec. 154 of the Cr.P.C. and S. 2(f) of the RTI Act.')).toEqual([
+      { actName: 'CrPC', sectionNumber: '156(3)', verified: true },
+      { actName: 'CrPC', sectionNumber: '154', verified: true },
+      { actName: 'RTI Act', sectionNumber: '2(f)', verified: true },
+    ]);
+  });
+
+  it('normalizes the case of section suffixes and lettered clauses', () => {
+    expect(summarize('See section 304b ipc and section 2(F) of the RTI Act.')).toEqual([
+      { actName: 'IPC', sectionNumber: '304B', verified: true },
+      { actName: 'RTI Act', sectionNumber: '2(f)', verified: true },
+    ]);
+  });
+
+  it('splits a list of sections into one citation each', () => {
+    expect(summarize('Sections 6 and 7 of the RTI Act set the timelines.')).toEqual([
+      { actName: 'RTI Act', sectionNumber: '6', verified: true },
+      { actName: 'RTI Act', sectionNumber: '7', verified: true },
+    ]);
+  });
+
+  it('reports each act and section once', () => {
+    const citations = extractCitations('Section 138 NI Act applies. Under section 138 of the Negotiable Instruments Act, the drawer is liable.');
+    expect(citations).toHaveLength(1);
+    expect(citations[0].raw).toBe('Section 138 NI Act');
+  });
+
+  it('keeps citations of acts outside the index, unverified', () => {
+    expect(summarize('Section 13 of the Hindu Marriage Act, 1955 lists the grounds for divorce.')).toEqual([
+      { actName: 'Hindu Marriage Act, 1955', sectionNumber: '13', verified: false },
+    ]);
+  });
+
+  it('leaves a section missing from a known act unverified', () => {
+    expect(summarize('Section 999 IPC does not exist.')).toEqual([
+      { actName: 'IPC', sectionNumber: '999', verified: false },
+    ]);
+  });
+
+  it('ignores back-references and constitutional articles', () => {
+    expect(extractCitations('As section 3 of this act says, Article 21 of the Constitution protects life and liberty.')).toEqual([]);
+  });
+
+  it('returns nothing for text without citations', () => {
+    expect(extractCitations('You can approach the district commission for a refund.')).toEqual([]);
+    expect(extractCitations('')).toEqual([]);
+  });
+});
@@ -0,0 +1,80 @@
+import { ACTS, getStatute, statuteId, StatuteAct, StatuteSection } from "@/lib/statutes";
+
+export interface Citation {
+  // Text as it appeared in the answer, e.g. "Section 498A IPC"
+  raw: string;
+  actName: string;
+  sectionNumber: string;
+  act?: StatuteAct;
+  // Set when the act and section were found in the local statute index
+  section?: StatuteSection;
+}
+
+const escapeRegExp = (value: string) => value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+// Longest aliases first so "RTI Act" wins over "RTI".
+const aliasToAct = new Map(
+  ACTS.flatMap((act) => [act.act.replace(/,\s*\d{4}$/, ''), ...act.aliases].map((alias) => [alias.toLowerCase(), act] as const))
+);
+const knownActPattern = [...aliasToAct.keys()]
+  .sort((a, b) => b.length - a.length)
+  .map(escapeRegExp)
+  .join('|');
+
+// Any "<Capitalised Words> Act" / "Code" / "Sanhita", so citations of acts outside the corpus are still detected.
+const anyActPattern = `(?:the\\s+)?(?:[A-Z][\\w.'()-]*\\s+){0,8}?(?:Act|Code|Sanhita)(?:,?\\s+\\d{4})?`;
+
+// Sub-clauses are numbered, e.g. 156(3), or lettered, e.g. 2(f) of the RTI Act.
+const SECTION_NUMBER = `\\d+[A-Z]{0,2}(?:\\((?:\\d+[a-z]?|[a-z])\\))*`;
+const SECTION_LIST = `${SECTION_NUMBER}(?:\\s*(?:,|and|&|or|\\/)\\s*${SECTION_NUMBER})*`;
+const SECTION_KEYWORD = `(?:Sections?|Secs?\\.?|Ss?\\.|u\\/s)`;
+
+// "Section 498A IPC", "Sections 6 and 7 of the RTI Act", "u/s 138 of the Negotiable Instruments Act, 1881"
+const sectionFirst = new RegExp(
+  `\\b${SECTION_KEYWORD}\\s*(${SECTION_LIST})\\s*(?:of\\s+)?(?:the\\s+)?(${knownActPattern}|${anyActPattern})`,
+  'gi'
+);
+// "IPC Section 420", "BNS s. 318"
+const actFirst = new RegExp(`\\b(${knownActPattern})\\s*,?\\s*${SECTION_KEYWORD}\\s*(${SECTION_LIST})`, 'gi');
+
+const findAct = (actName: string) => {
+  const normalized = actName.replace(/^the\s+/i, '').replace(/,?\s+\d{4}$/, '').trim().toLowerCase();
+  return aliasToAct.get(normalized);
+};
+
+// "498a" -> "498A", "2(F)" -> "2(f)": section suffixes are capitals, lettered clauses lower case.
+const normalizeSectionNumber = (sectionNumber: string) =>
+  sectionNumber.replace(/^[^(]*/, (section) => section.toUpperCase()).replace(/\(.*$/, (clauses) => clauses.toLowerCase());
+
+// Tries the exact sub-section first ("2(7)"), then the parent section ("156" for "156(3)").
+const findSection = (act: StatuteAct, sectionNumber: string) =>
+  getStatute(statuteId(act.code, sectionNumber)) ?? getStatute(statuteId(act.code, sectionNumber.replace(/\(.*$/, '')));
+
+// Extracts act/section references from an answer and checks each against the local statute index.
+export const extractCitations = (text: string): Citation[] => {
+  const citations = new Map<string, Citation>();
+
+  const add = (raw: string, actName: string, sectionList: string) => {
+    const act = findAct(actName);
+    // The regexes are case-insensitive, so skip "section 3 of this act" style back-references.
+    if (!act && !/^[A-Z]/.test(actName.replace(/^the\s+/i, ''))) return;
+
+    for (const match of sectionList.match(new RegExp(SECTION_NUMBER, 'gi')) ?? []) {
+      const sectionNumber = normalizeSectionNumber(match);
+      const key = `${act?.code ?? actName.toLowerCase()}:${sectionNumber}`;
+      if (citations.has(key)) continue;
+      citations.set(key, {
+        raw,
+        actName: act?.shortName ?? actName.replace(/^the\s+/i, ''),
+        sectionNumber,
+        act,
+        section: act ? findSection(act, sectionNumber) : undefined,
+      });
+    }
+  };
+
+  for (const match of text.matchAll(sectionFirst)) add(match[0], match[2], match[1]);
+  for (const match of text.matchAll(actFirst)) add(match[0], match[1], match[2]);
+
+  return [...citations.values()];
+};
@@ -0,0 +1,92 @@
+import { extractCitations } from "@/lib/citations";
+import { formatStatuteLabel, getStatute, StatuteSection } from "@/lib/statutes";
+
+export const DISCLAIMER =
+  'JUSTICE PATH provides general legal information, not legal advice. ' +
+  'For specific legal issues, please consult a qualified lawyer.';
+
+export interface BriefMessage {
+  role: 'user' | 'assistant';
+  content: string;
+  sources?: string[];
+  truncated?: boolean;
+}
+
+export interface BriefTurn {
+  question: string;
+  // Null when the question was never answered (e.g. the request failed)
+  answer: string | null;
+  truncated: boolean;
+}
+
+export interface ConversationBrief {
+  title: string;
+  conversationId: string | null;
+  exportedAt: Date;
+  turns: BriefTurn[];
+  // Retrieved and cited sections, de-duplicated, in order of first appearance
+  citedSections: StatuteSection[];
+  messages: BriefMessage[];
+}
+
+// Pairs each question with the answer that follows it and collects the statute sections
+// the answers were grounded in or cited.
+export const buildBrief = ({ title, conversationId, messages }: {
+  title: string;
+  conversationId: string | null;
+  messages: BriefMessage[];
+}): ConversationBrief => {
+  const turns: BriefTurn[] = [];
+  const sections = new Map<string, StatuteSection>();
+
+  for (const message of messages) {
+    if (message.role === 'user') {
+      turns.push({ question: message.content, answer: null, truncated: false });
+      continue;
+    }
+
+    const turn = turns[turns.length - 1];
+    if (turn && turn.answer === null) {
+      turn.answer = message.content;
+      turn.truncated = !!message.truncated;
+    }
+
+    for (const id of message.sources ?? []) {
+      const section = getStatute(id);
+      if (section) sections.set(section.id, section);
+    }
+    for (const citation of extractCitations(message.content)) {
+      if (citation.section) sections.set(citation.section.id, citation.section);
+    }
+  }
+
+  return {
+    title,
+    conversationId,
+    exportedAt: new Date(),
+    turns,
+    citedSections: [...sections.values()],
+    messages,
+  };
+};
+
+export const formatSectionLine = (section: StatuteSection) => `${formatStatuteLabel(section)}: ${section.title} (${section.act})`;
+
+// Flattens markdown for PDF/DOCX, which get plain paragraphs: drops emphasis, heading and
+// code markers and link targets, keeps list bullets and numbering.
+export const markdownToPlainText = (markdown: string) =>
+  markdown
+    .replace(/```[a-z]*\n?/gi, '')
+    .replace(/`([^`]+)`/g, '$1')
+    .replace(/^#{1,6}\s+/gm, '')
+    .replace(/\*\*(.+?)\*\*|__(.+?)__/g, '$1$2')
+    .replace(/(^|[^*])\*(?!\s)(.+?)\*/g, '$1$2')
+    .replace(/^\s*[-*+]\s+/gm, '• ')
+    .replace(/!?\[([^\]]*)\]\([^)]*\)/g, '$1')
+    .replace(/^\s*>\s?/gm, '')
+    .trim();
+
+export const exportFileName = (brief: ConversationBrief, extension: string) => {
+  const slug = brief.title.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '').substring(0, 60);
+  return `${slug || 'conversation'}-${brief.exportedAt.toISOString().substring(0, 10)}.${extension}`;
+};
@@ -0,0 +1,32 @@
+const PAGE_MARGIN = 25;
+const FONT_SIZE = 12;
+const LINE_HEIGHT = FONT_SIZE * 0.3528 * 1.5;
+
+// Plain-text documents (drafted applications, complaints, affidavits) as one PDF, each
+// starting on a new page. Like toPdf, jsPDF's built-in fonts only cover WinAnsi text, so
+// DraftActions sends drafts in other scripts to the browser's print dialog instead.
+export const documentsToPdf = async (documents: string[]) => {
+  const { jsPDF } = await import("jspdf");
+  const doc = new jsPDF({ unit: 'mm', format: 'a4' });
+
+  const pageWidth = doc.internal.pageSize.getWidth();
+  const pageHeight = doc.internal.pageSize.getHeight();
+  doc.setFont('times', 'normal');
+  doc.setFontSize(FONT_SIZE);
+
+  documents.forEach((text, index) => {
+    if (index > 0) doc.addPage();
+    let y = PAGE_MARGIN;
+
+    for (const line of doc.splitTextToSize(text, pageWidth - PAGE_MARGIN * 2) as string[]) {
+      if (y + LINE_HEIGHT > pageHeight - PAGE_MARGIN) {
+        doc.addPage();
+        y = PAGE_MARGIN;
+      }
+      doc.text(line, PAGE_MARGIN, y + LINE_HEIGHT * 0.75);
+      y += LINE_HEIGHT;
+    }
+  });
+
+  return doc.output('blob');
+};
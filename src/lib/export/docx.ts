@@ -0,0 +1,39 @@
+import { ConversationBrief, DISCLAIMER, formatSectionLine, markdownToPlainText } from "@/lib/export/brief";
+
+// Loaded on demand like jsPDF; Word renders any script, so this is the export to use for
+// conversations in Indian languages.
+export const toDocx = async (brief: ConversationBrief) => {
+  const { Document, HeadingLevel, Packer, Paragraph, TextRun } = await import("docx");
+
+  const paragraphs = (text: string) =>
+    text.split('\n').map((line) => new Paragraph({ children: [new TextRun(line)], spacing: { after: 80 } }));
+
+  const note = (text: string) =>
+    new Paragraph({ children: [new TextRun({ text, italics: true, size: 18, color: '6B7280' })], spacing: { after: 200 } });
+
+  const children = [
+    new Paragraph({ text: brief.title, heading: HeadingLevel.TITLE }),
+    note(`Exported ${brief.exportedAt.toLocaleString()}`),
+    note(DISCLAIMER),
+    ...brief.turns.flatMap((turn, index) => [
+      new Paragraph({ text: `Q${index + 1}. ${turn.question}`, heading: HeadingLevel.HEADING_2 }),
+      ...paragraphs(turn.answer ? markdownToPlainText(turn.answer) : 'No answer.'),
+      ...(turn.truncated ? [note('This answer was stopped before it finished.')] : []),
+    ]),
+    ...(brief.citedSections.length > 0
+      ? [
+        new Paragraph({ text: 'Cited sections', heading: HeadingLevel.HEADING_2 }),
+        ...brief.citedSections.map((section) => new Paragraph({ text: formatSectionLine(section), bullet: { level: 0 } })),
+      ]
+      : []),
+  ];
+
+  const document = new Document({
+    creator: 'JUSTICE PATH',
+    title: brief.title,
+    description: DISCLAIMER,
+    sections: [{ children }],
+  });
+
+  return Packer.toBlob(document);
+};
@@ -0,0 +1,22 @@
+import { describe, expect, it } from "vitest";
+import { hasUnsupportedPdfCharacters } from "@/lib/export/pdf-support";
+
+describe('hasUnsupportedPdfCharacters', () => {
+  it('accepts English text with Windows-1252 punctuation and accents', () => {
+    expect(hasUnsupportedPdfCharacters('Section 138 “cheque” – it’s due…\n\tRs. 5,000 • € 10 • Café')).toBe(false);
+  });
+
+  it('rejects Indian scripts', () => {
+    expect(hasUnsupportedPdfCharacters('धारा 138')).toBe(true);
+    expect(hasUnsupportedPdfCharacters('பிரிவு 138')).toBe(true);
+  });
+
+  it('rejects symbols outside WinAnsi, such as the rupee sign', () => {
+    expect(hasUnsupportedPdfCharacters('₹5,000')).toBe(true);
+    expect(hasUnsupportedPdfCharacters('Refund → compensation')).toBe(true);
+  });
+
+  it('rejects control characters', () => {
+    expect(hasUnsupportedPdfCharacters('a\u0000b')).toBe(true);
+  });
+});
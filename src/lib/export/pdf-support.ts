@@ -0,0 +1,9 @@
+// Characters of Windows-1252 beyond Latin-1, which WinAnsiEncoding places in 0x80-0x9F.
+const WIN_ANSI_EXTRAS = '€‚ƒ„…†‡ˆ‰Š‹ŒŽ‘’“”•–—˜™š›œžŸ';
+const UNSUPPORTED = new RegExp(`[^\\t\\n\\r\\x20-\\x7e\\xa0-\\xff${WIN_ANSI_EXTRAS}]`, 'u');
+
+// jsPDF's built-in fonts (Helvetica, Times) are WinAnsi-encoded, so anything outside that
+// character set comes out as garbage: Hindi and other Indian scripts, but also symbols such
+// as ₹. jsPDF can't shape Indian scripts even with an embedded font, so callers offer DOCX or
+// printing instead.
+export const hasUnsupportedPdfCharacters = (text: string) => UNSUPPORTED.test(text);
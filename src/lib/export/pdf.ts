@@ -0,0 +1,62 @@
+import { ConversationBrief, DISCLAIMER, formatSectionLine, markdownToPlainText } from "@/lib/export/brief";
+
+const PAGE_MARGIN = 20;
+const LINE_HEIGHT_FACTOR = 1.4;
+const PT_TO_MM = 0.3528;
+
+// jsPDF is loaded on demand so it stays out of the main bundle. Its built-in Helvetica only
+// covers WinAnsi text, so ExportMenu doesn't offer PDF for conversations in Indian scripts.
+export const toPdf = async (brief: ConversationBrief) => {
+  const { jsPDF } = await import("jspdf");
+  const doc = new jsPDF({ unit: 'mm', format: 'a4' });
+
+  const pageWidth = doc.internal.pageSize.getWidth();
+  const pageHeight = doc.internal.pageSize.getHeight();
+  const contentWidth = pageWidth - PAGE_MARGIN * 2;
+  let y = PAGE_MARGIN;
+
+  const write = (text: string, { size = 11, style = 'normal', gap = 2, color = 20 } = {}) => {
+    doc.setFont('helvetica', style);
+    doc.setFontSize(size);
+    doc.setTextColor(color);
+    const lineHeight = size * PT_TO_MM * LINE_HEIGHT_FACTOR;
+
+    for (const line of doc.splitTextToSize(text, contentWidth) as string[]) {
+      if (y + lineHeight > pageHeight - PAGE_MARGIN) {
+        doc.addPage();
+        y = PAGE_MARGIN;
+      }
+      doc.text(line, PAGE_MARGIN, y + lineHeight * 0.75);
+      y += lineHeight;
+    }
+    y += gap;
+  };
+
+  write(brief.title, { size: 18, style: 'bold' });
+  write(`Exported ${brief.exportedAt.toLocaleString()}`, { size: 9, color: 110 });
+  write(DISCLAIMER, { size: 9, style: 'italic', gap: 6, color: 110 });
+
+  brief.turns.forEach((turn, index) => {
+    write(`Q${index + 1}. ${turn.question}`, { size: 12, style: 'bold' });
+    write(turn.answer ? markdownToPlainText(turn.answer) : 'No answer.', { gap: turn.truncated ? 1 : 6 });
+    if (turn.truncated) {
+      write('This answer was stopped before it finished.', { size: 9, style: 'italic', gap: 6, color: 110 });
+    }
+  });
+
+  if (brief.citedSections.length > 0) {
+    write('Cited sections', { size: 14, style: 'bold' });
+    brief.citedSections.forEach((section) => write(`• ${formatSectionLine(section)}`, { size: 10, gap: 1 }));
+  }
+
+  const pageCount = doc.getNumberOfPages();
+  for (let page = 1; page <= pageCount; page++) {
+    doc.setPage(page);
+    doc.setFont('helvetica', 'normal');
+    doc.setFontSize(8);
+    doc.setTextColor(140);
+    doc.text(`JUSTICE PATH · Page ${page} of ${pageCount}`, pageWidth / 2, pageHeight - 10, { align: 'center' });
+  }
+
+  return doc.output('blob');
+};
@@ -0,0 +1,33 @@
+const escapeHtml = (text: string) =>
+  text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+
+// Prints plain-text documents (drafted forms and letters) from a hidden iframe so the
+// page chrome isn't printed with them. Each document starts on a new page.
+export const printDocuments = (title: string, documents: string[]) => {
+  const frame = document.createElement('iframe');
+  frame.style.position = 'fixed';
+  frame.style.width = '0';
+  frame.style.height = '0';
+  frame.style.border = '0';
+  document.body.appendChild(frame);
+
+  const frameDocument = frame.contentDocument;
+  const frameWindow = frame.contentWindow;
+  if (!frameDocument || !frameWindow) {
+    frame.remove();
+    return;
+  }
+
+  frameDocument.open();
+  frameDocument.write(`<!doctype html><html><head><title>${escapeHtml(title)}</title><style>
+    body { font-family: 'Times New Roman', serif; font-size: 12pt; line-height: 1.5; margin: 2cm; }
+    pre { font-family: inherit; white-space: pre-wrap; margin: 0; }
+    pre + pre { page-break-before: always; }
+  </style></head><body>${documents.map(text => `<pre>${escapeHtml(text)}</pre>`).join('')}</body></html>`);
+  frameDocument.close();
+
+  frameWindow.focus();
+  frameWindow.print();
+  // print() blocks until the dialog closes in most browsers; remove the frame afterwards.
+  setTimeout(() => frame.remove(), 1000);
+};
@@ -0,0 +1,35 @@
+import { ConversationBrief, DISCLAIMER, formatSectionLine } from "@/lib/export/brief";
+
+export const toMarkdown = (brief: ConversationBrief) => {
+  const lines = [
+    `# ${brief.title}`,
+    '',
+    `_Exported ${brief.exportedAt.toLocaleString()}_`,
+    '',
+    `> ${DISCLAIMER}`,
+    '',
+  ];
+
+  brief.turns.forEach((turn, index) => {
+    lines.push(`## Q${index + 1}. ${turn.question.split('\n')[0]}`, '');
+    if (turn.question.includes('\n')) lines.push(turn.question, '');
+    lines.push(turn.answer ?? '_No answer._', '');
+    if (turn.truncated) lines.push('_This answer was stopped before it finished._', '');
+  });
+
+  if (brief.citedSections.length > 0) {
+    lines.push('## Cited sections', '', ...brief.citedSections.map((section) => `- ${formatSectionLine(section)}`), '');
+  }
+
+  return lines.join('\n');
+};
+
+// Lossless archive of the visible conversation, suitable for re-import or tooling.
+export const toJson = (brief: ConversationBrief) =>
+  JSON.stringify({
+    title: brief.title,
+    conversationId: brief.conversationId,
+    exportedAt: brief.exportedAt.toISOString(),
+    messages: brief.messages,
+    citedSections: brief.citedSections.map((section) => section.id),
+  }, null, 2);
@@ -0,0 +1,59 @@
+import { describe, expect, it } from "vitest";
+import { getCommissionTier, getFilingFee, isWithinLimitation } from "@/lib/forms/consumer";
+
+const LAKH = 100000;
+const CRORE = 100 * LAKH;
+
+describe('getCommissionTier', () => {
+  it.each([
+    [0, 'district'],
+    [50 * LAKH, 'district'],
+    [50 * LAKH + 1, 'state'],
+    [2 * CRORE, 'state'],
+    [2 * CRORE + 1, 'national'],
+    [500 * CRORE, 'national'],
+  ])('places a consideration of Rs. %i with the %s commission', (consideration, tier) => {
+    expect(getCommissionTier(consideration).tier).toBe(tier);
+  });
+});
+
+describe('getFilingFee', () => {
+  it.each([
+    [5 * LAKH, 0, 200],
+    [10 * LAKH, 200, 400],
+    [20 * LAKH, 400, 1000],
+    [50 * LAKH, 1000, 2000],
+    [1 * CRORE, 2000, 2500],
+    [2 * CRORE, 2500, 3000],
+    [4 * CRORE, 3000, 4000],
+    [6 * CRORE, 4000, 5000],
+    [8 * CRORE, 5000, 6000],
+    [10 * CRORE, 6000, 7500],
+  ])('charges up to Rs. %i at Rs. %i and a rupee more at Rs. %i', (upTo, fee, nextFee) => {
+    expect(getFilingFee(upTo)).toBe(fee);
+    expect(getFilingFee(upTo + 1)).toBe(nextFee);
+  });
+
+  it('charges nothing for a free service', () => {
+    expect(getFilingFee(0)).toBe(0);
+  });
+});
+
+describe('isWithinLimitation', () => {
+  it('allows two years from the cause of action, including the last day', () => {
+    expect(isWithinLimitation('2023-06-15', '2024-06-15')).toBe(true);
+    expect(isWithinLimitation('2023-06-15', '2025-06-14')).toBe(true);
+    expect(isWithinLimitation('2023-06-15', '2025-06-15')).toBe(true);
+    expect(isWithinLimitation('2023-06-15', '2025-06-16')).toBe(false);
+  });
+
+  it('crosses month and year ends', () => {
+    expect(isWithinLimitation('2022-12-31', '2024-12-31')).toBe(true);
+    expect(isWithinLimitation('2022-12-31', '2025-01-01')).toBe(false);
+  });
+
+  it('ends a period from 29 February on 28 February', () => {
+    expect(isWithinLimitation('2024-02-29', '2026-02-28')).toBe(true);
+    expect(isWithinLimitation('2024-02-29', '2026-03-01')).toBe(false);
+  });
+});
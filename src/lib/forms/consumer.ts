@@ -0,0 +1,286 @@
+import { z } from "zod";
+import {
+  TemplateValues,
+  formatDocumentDate,
+  formatRupees,
+  prefillAmount,
+  prefillDate,
+  splitFirstLine,
+  todayInputValue,
+  withoutEmpty,
+} from "@/lib/templates";
+
+const LAKH = 100000;
+const CRORE = 100 * LAKH;
+
+export type CommissionTier = 'district' | 'state' | 'national';
+
+// Pecuniary limits on the value of goods or services paid as consideration, under the
+// Consumer Protection (Jurisdiction of the District Commission, the State Commission and
+// the National Commission) Rules, 2021. The amount claimed doesn't decide the forum.
+export const COMMISSION_TIERS: {
+  tier: CommissionTier;
+  label: string;
+  upTo: number;
+  section: string;
+  range: string;
+}[] = [
+  { tier: 'district', label: 'District Commission', upTo: 50 * LAKH, section: 'Section 34(1)', range: 'up to Rs. 50 lakh' },
+  { tier: 'state', label: 'State Commission', upTo: 2 * CRORE, section: 'Section 47(1)(a)(i)', range: 'above Rs. 50 lakh and up to Rs. 2 crore' },
+  { tier: 'national', label: 'National Commission', upTo: Infinity, section: 'Section 58(1)(a)(i)', range: 'above Rs. 2 crore' },
+];
+
+export const getCommissionTier = (consideration: number) =>
+  COMMISSION_TIERS.find(({ upTo }) => consideration <= upTo)!;
+
+// Rule 7 of the Consumer Protection (Consumer Disputes Redressal Commissions) Rules, 2020,
+// also on the consideration paid.
+const FILING_FEES: { upTo: number; fee: number }[] = [
+  { upTo: 5 * LAKH, fee: 0 },
+  { upTo: 10 * LAKH, fee: 200 },
+  { upTo: 20 * LAKH, fee: 400 },
+  { upTo: 50 * LAKH, fee: 1000 },
+  { upTo: 1 * CRORE, fee: 2000 },
+  { upTo: 2 * CRORE, fee: 2500 },
+  { upTo: 4 * CRORE, fee: 3000 },
+  { upTo: 6 * CRORE, fee: 4000 },
+  { upTo: 8 * CRORE, fee: 5000 },
+  { upTo: 10 * CRORE, fee: 6000 },
+  { upTo: Infinity, fee: 7500 },
+];
+
+export const getFilingFee = (consideration: number) =>
+  FILING_FEES.find(({ upTo }) => consideration <= upTo)!.fee;
+
+// Section 69(1): two years from the date the cause of action arose.
+export const LIMITATION_YEARS = 2;
+
+export const isWithinLimitation = (causeOfActionDate: string, today = todayInputValue()) => {
+  const [year, month, day] = causeOfActionDate.split('-');
+  return `${Number(year) + LIMITATION_YEARS}-${month}-${day}` >= today;
+};
+
+const amount = (message: string) => z.string().trim().regex(/^\d*$/, message);
+
+export const consumerSchema = z.object({
+  complainantName: z.string().trim().min(2, 'Enter your full name'),
+  complainantParentage: z.string().trim(),
+  complainantAge: z.string().trim().regex(/^\d{1,3}$/, 'Enter your age in years'),
+  complainantAddress: z.string().trim().min(10, 'Enter your full postal address'),
+  complainantPhone: z.string().trim(),
+  complainantEmail: z.string().trim().email('Enter a valid email address').or(z.literal('')),
+  oppositeParties: z
+    .array(z.object({
+      name: z.string().trim().min(2, 'Enter the name of the seller or service provider'),
+      address: z.string().trim().min(10, 'Enter their address'),
+    }))
+    .min(1, 'Add at least one opposite party'),
+
+  nature: z.enum(['goods', 'services']),
+  productDescription: z.string().trim().min(3, 'Describe what you bought or hired'),
+  purchaseDate: z.string().min(1, 'Enter the date of purchase'),
+  considerationPaid: z.string().trim().regex(/^\d+$/, 'Enter the amount you paid in whole rupees'),
+  invoiceNumber: z.string().trim(),
+  deficiency: z.string().trim().min(20, 'Describe the defect or deficiency in some detail'),
+  priorComplaint: z.string().trim(),
+  causeOfActionDate: z.string().min(1, 'Enter the date the problem arose or was refused'),
+  unfairTradePractice: z.boolean(),
+
+  refundAmount: amount('Enter the refund in whole rupees'),
+  compensationAmount: amount('Enter the compensation in whole rupees'),
+  costsAmount: amount('Enter the costs in whole rupees'),
+  otherRelief: z.string().trim(),
+
+  documents: z.array(z.object({ description: z.string().trim().min(3, 'Describe the document') })),
+  district: z.string().trim().min(2, 'Enter the district where you will file'),
+  state: z.string().trim().min(2, 'Enter the state'),
+  place: z.string().trim().min(2, 'Enter the place of signing'),
+  date: z.string().min(1, 'Enter the date'),
+}).superRefine((values, ctx) => {
+  if (values.purchaseDate > todayInputValue()) {
+    ctx.addIssue({ code: 'custom', path: ['purchaseDate'], message: 'The purchase date is in the future' });
+  }
+  if (values.causeOfActionDate && values.causeOfActionDate < values.purchaseDate) {
+    ctx.addIssue({ code: 'custom', path: ['causeOfActionDate'], message: 'This should be on or after the purchase date' });
+  }
+  if (!Number(values.refundAmount) && !Number(values.compensationAmount) && !values.otherRelief) {
+    ctx.addIssue({ code: 'custom', path: ['otherRelief'], message: 'Ask for a refund, compensation or some other relief' });
+  }
+});
+
+export type ConsumerValues = z.infer<typeof consumerSchema>;
+
+export const claimValue = (values: Pick<ConsumerValues, 'refundAmount' | 'compensationAmount' | 'costsAmount'>) =>
+  Number(values.refundAmount || 0) + Number(values.compensationAmount || 0) + Number(values.costsAmount || 0);
+
+const commissionHeading = (values: ConsumerValues) => {
+  switch (getCommissionTier(Number(values.considerationPaid)).tier) {
+    case 'national':
+      return 'BEFORE THE NATIONAL CONSUMER DISPUTES REDRESSAL COMMISSION, NEW DELHI';
+    case 'state':
+      return `BEFORE THE STATE CONSUMER DISPUTES REDRESSAL COMMISSION, ${values.state.toUpperCase()}`;
+    default:
+      return `BEFORE THE DISTRICT CONSUMER DISPUTES REDRESSAL COMMISSION, ${values.district.toUpperCase()}, ${values.state.toUpperCase()}`;
+  }
+};
+
+const caseHeader = (values: ConsumerValues, short = false) => {
+  const parties = values.oppositeParties;
+  const complainant = short
+    ? values.complainantName
+    : `${values.complainantName}${values.complainantParentage ? `, ${values.complainantParentage}` : ''}, aged ${values.complainantAge} years,\nresiding at ${values.complainantAddress}`;
+  const opposite = short
+    ? `${parties[0].name}${parties.length > 1 ? ' and others' : ''}`
+    : parties.map((party, index) => `${parties.length > 1 ? `${index + 1}. ` : ''}${party.name},\n${party.address}`).join('\n');
+
+  return [
+    commissionHeading(values),
+    '',
+    `Consumer Complaint No. ________ of ${values.date.substring(0, 4)}`,
+    '',
+    'IN THE MATTER OF:',
+    complainant,
+    '... Complainant',
+    '',
+    'VERSUS',
+    '',
+    opposite,
+    `... Opposite Part${parties.length > 1 ? 'ies' : 'y'}`,
+  ].join('\n');
+};
+
+const signature = (values: ConsumerValues, role: string) =>
+  [`Place: ${values.place}`, `Date: ${formatDocumentDate(values.date)}`, '', `(${values.complainantName})`, role].join('\n');
+
+export const buildComplaint = (values: ConsumerValues) => {
+  const consideration = Number(values.considerationPaid);
+  const tier = getCommissionTier(consideration);
+  const fee = getFilingFee(consideration);
+  const opposite = values.oppositeParties.length > 1 ? 'the Opposite Parties' : 'the Opposite Party';
+  const bought = values.nature === 'goods' ? 'bought' : 'hired/availed';
+  const wrongs = [
+    values.nature === 'goods'
+      ? 'a defect in the goods within the meaning of Section 2(10)'
+      : 'a deficiency in service within the meaning of Section 2(11)',
+    ...(values.unfairTradePractice ? ['an unfair trade practice within the meaning of Section 2(47)'] : []),
+  ];
+
+  const paragraphs = [
+    `That the Complainant is a consumer within the meaning of Section 2(7) of the Consumer Protection Act, 2019, having ${bought} the ${values.nature} described below for consideration, and not for any commercial purpose.`,
+    `That on ${formatDocumentDate(values.purchaseDate)} the Complainant ${bought} ${values.productDescription} from ${opposite} for a consideration of ${formatRupees(consideration)}${values.invoiceNumber ? ` (invoice/receipt no. ${values.invoiceNumber})` : ''}.`,
+    `That the Complainant's grievance is as follows: ${values.deficiency}`,
+    ...(values.priorComplaint ? [`That the Complainant raised the matter with ${opposite}: ${values.priorComplaint}. ${opposite.charAt(0).toUpperCase() + opposite.slice(1)} failed to resolve it.`] : []),
+    `That the above acts and omissions of ${opposite} amount to ${wrongs.join(' and ')} of the Act.`,
+    isWithinLimitation(values.causeOfActionDate)
+      ? `That the cause of action arose on ${formatDocumentDate(values.causeOfActionDate)} and the complaint is filed within the period of two years prescribed by Section 69(1) of the Act.`
+      : `That the cause of action arose on ${formatDocumentDate(values.causeOfActionDate)}. The delay in filing is explained in the accompanying application for condonation of delay under Section 69(2) of the Act.`,
+    tier.tier === 'national'
+      ? `That the value of the ${values.nature} paid as consideration is ${formatRupees(consideration)}, which is within the pecuniary jurisdiction of this Commission under ${tier.section} of the Act read with the Consumer Protection (Jurisdiction of the District Commission, the State Commission and the National Commission) Rules, 2021.`
+      : `That the value of the ${values.nature} paid as consideration is ${formatRupees(consideration)}, which is within the pecuniary jurisdiction of this Commission under ${tier.section} of the Act read with the Consumer Protection (Jurisdiction of the District Commission, the State Commission and the National Commission) Rules, 2021. This Commission has territorial jurisdiction under Section ${tier.tier === 'district' ? '34(2)' : '47(4)'} as the Complainant resides or the cause of action arose within its limits.`,
+    fee > 0
+      ? `That the Complainant has paid the prescribed fee of ${formatRupees(fee)}.`
+      : 'That no fee is payable as the consideration paid does not exceed Rs. 5 lakh.',
+    'That the Complainant has not filed any other complaint on the same facts before any other Commission or court.',
+  ];
+
+  const reliefs = [
+    ...(Number(values.refundAmount) ? [`refund ${formatRupees(Number(values.refundAmount))} paid for the ${values.nature}, with interest`] : []),
+    ...(Number(values.compensationAmount) ? [`pay ${formatRupees(Number(values.compensationAmount))} as compensation for the loss, harassment and mental agony caused`] : []),
+    ...(Number(values.costsAmount) ? [`pay ${formatRupees(Number(values.costsAmount))} as costs of this complaint`] : []),
+    ...(values.otherRelief ? [values.otherRelief] : []),
+  ];
+
+  return [
+    caseHeader(values),
+    '',
+    'COMPLAINT UNDER SECTION 35 OF THE CONSUMER PROTECTION ACT, 2019',
+    '',
+    'MOST RESPECTFULLY SHOWETH:',
+    '',
+    paragraphs.map((text, index) => `${index + 1}. ${text}`).join('\n\n'),
+    '',
+    'PRAYER',
+    '',
+    `It is therefore most respectfully prayed that this Hon'ble Commission may be pleased to direct ${opposite} to:`,
+    reliefs.map((text, index) => `(${String.fromCharCode(97 + index)}) ${text};`).join('\n'),
+    'and pass any other order that this Commission deems fit in the interest of justice.',
+    '',
+    signature(values, 'Complainant'),
+    '',
+    'VERIFICATION',
+    '',
+    `I, ${values.complainantName}, the Complainant above named, verify that the contents of paragraphs 1 to ${paragraphs.length} of this complaint are true and correct to my knowledge and belief, and that nothing material has been concealed. Verified at ${values.place} on ${formatDocumentDate(values.date)}.`,
+    '',
+    `(${values.complainantName})`,
+    'Complainant',
+  ].join('\n');
+};
+
+export const buildAffidavit = (values: ConsumerValues) =>
+  [
+    caseHeader(values, true),
+    '',
+    'AFFIDAVIT IN SUPPORT OF THE COMPLAINT',
+    '',
+    `I, ${values.complainantName}${values.complainantParentage ? `, ${values.complainantParentage}` : ''}, aged ${values.complainantAge} years, residing at ${values.complainantAddress}, do hereby solemnly affirm and state as under:`,
+    '',
+    '1. That I am the Complainant in the above matter, am well acquainted with its facts and am competent to swear this affidavit.',
+    '',
+    '2. That the accompanying complaint has been drafted on my instructions. Its contents are true and correct to my knowledge and belief, and are not repeated here for brevity.',
+    '',
+    '3. That the documents filed with the complaint are true copies of their originals.',
+    '',
+    'DEPONENT',
+    '',
+    'VERIFICATION',
+    '',
+    `Verified at ${values.place} on ${formatDocumentDate(values.date)} that the contents of paragraphs 1 to 3 of this affidavit are true and correct to my knowledge and belief, and that nothing material has been concealed.`,
+    '',
+    'DEPONENT',
+  ].join('\n');
+
+export const buildIndex = (values: ConsumerValues) => {
+  const entries = [
+    'Complaint under Section 35 of the Consumer Protection Act, 2019, with verification',
+    'Affidavit in support of the complaint',
+    ...values.documents.map((document, index) => `${document.description} (Annexure C-${index + 1})`),
+    ...(getFilingFee(Number(values.considerationPaid)) > 0 ? ['Proof of payment of the filing fee'] : []),
+    ...(!isWithinLimitation(values.causeOfActionDate) ? ['Application for condonation of delay under Section 69(2)'] : []),
+  ];
+
+  return [
+    caseHeader(values, true),
+    '',
+    'INDEX',
+    '',
+    'S. No.   Particulars                                        Pages',
+    ...entries.map((entry, index) => `${`${index + 1}.`.padEnd(9)}${entry}   ______`),
+    '',
+    signature(values, 'Complainant'),
+  ].join('\n');
+};
+
+// Index first, then the complaint and the supporting affidavit, in filing order.
+export const buildComplaintBundle = (values: ConsumerValues) => [
+  { title: 'Index', text: buildIndex(values) },
+  { title: 'Complaint', text: buildComplaint(values) },
+  { title: 'Affidavit', text: buildAffidavit(values) },
+];
+
+// Maps the consumer-complaint template fields a chat suggestion filled in onto the wizard.
+export const consumerPrefill = (fields: TemplateValues): Partial<ConsumerValues> => {
+  const [name, address] = splitFirstLine(fields.opposite_party);
+
+  return withoutEmpty({
+    complainantName: fields.complainant_name?.trim() ?? '',
+    complainantAddress: fields.complainant_address?.trim() ?? '',
+    oppositeParties: name ? [{ name, address }] : undefined,
+    productDescription: fields.purchase_details?.trim() ?? '',
+    purchaseDate: prefillDate(fields.purchase_date),
+    considerationPaid: prefillAmount(fields.consideration_paid),
+    deficiency: fields.grievance?.trim() ?? '',
+    otherRelief: fields.relief?.trim() ?? '',
+    place: fields.place?.trim() ?? '',
+    date: prefillDate(fields.date),
+  });
+};
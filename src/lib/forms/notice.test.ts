@@ -0,0 +1,68 @@
+import { describe, expect, it } from "vitest";
+import { addDays, computeDeadlines, NoticeDispatch, NoticeRecord, NoticeScenario, NoticeValues } from "@/lib/forms/notice";
+
+const record = (
+  scenario: NoticeScenario,
+  dispatch: Partial<NoticeDispatch> | null,
+  complianceDays = '30',
+): NoticeRecord => ({
+  values: { scenario, complianceDays } as NoticeValues,
+  dispatch: dispatch && { dispatchedOn: '2024-03-01', mode: 'speed_post', trackingNumber: '', deliveredOn: null, ...dispatch },
+});
+
+describe('addDays', () => {
+  it('rolls over month, year and leap-day ends', () => {
+    expect(addDays('2024-01-31', 1)).toBe('2024-02-01');
+    expect(addDays('2024-02-28', 1)).toBe('2024-02-29');
+    expect(addDays('2023-02-28', 1)).toBe('2023-03-01');
+    expect(addDays('2024-12-31', 1)).toBe('2025-01-01');
+  });
+});
+
+describe('computeDeadlines', () => {
+  it('has no deadlines until the notice is dispatched', () => {
+    expect(computeDeadlines(record('salary', null))).toBeNull();
+  });
+
+  it.each<NoticeScenario>(['salary', 'deposit', 'general'])('gives the %s notice the days it allows', (scenario) => {
+    expect(computeDeadlines(record(scenario, { deliveredOn: '2024-03-05' }, '7'))).toEqual({
+      responseDue: '2024-03-12',
+      estimated: false,
+      complaintWindow: null,
+    });
+  });
+
+  it('gives a cheque notice the statutory 15 days, whatever the form says', () => {
+    expect(computeDeadlines(record('cheque', { deliveredOn: '2024-03-05' }, '30'))?.responseDue).toBe('2024-03-20');
+  });
+
+  it('counts from dispatch, as an estimate, until delivery is recorded', () => {
+    expect(computeDeadlines(record('general', { dispatchedOn: '2024-03-01' }, '15'))).toMatchObject({
+      responseDue: '2024-03-16',
+      estimated: true,
+    });
+  });
+
+  it('opens the cheque complaint window the day after the time to pay runs out, for one month', () => {
+    expect(computeDeadlines(record('cheque', { deliveredOn: '2024-03-05' }))?.complaintWindow).toEqual({
+      from: '2024-03-21',
+      to: '2024-04-21',
+    });
+  });
+
+  it('rolls the response period over the month and year end', () => {
+    expect(computeDeadlines(record('deposit', { deliveredOn: '2024-12-20' }, '15'))?.responseDue).toBe('2025-01-04');
+  });
+
+  it('ends a complaint window that opens on the 31st on the last day of a shorter month', () => {
+    // Delivered 15 January 2024: pay by 30 January, cause of action 31 January.
+    expect(computeDeadlines(record('cheque', { deliveredOn: '2024-01-15' }))?.complaintWindow).toEqual({
+      from: '2024-01-31',
+      to: '2024-02-29',
+    });
+    expect(computeDeadlines(record('cheque', { deliveredOn: '2023-01-15' }))?.complaintWindow).toEqual({
+      from: '2023-01-31',
+      to: '2023-02-28',
+    });
+  });
+});
@@ -0,0 +1,296 @@
+import { z } from "zod";
+import {
+  TemplateValues,
+  formatDocumentDate,
+  formatRupees,
+  prefillAmount,
+  prefillDate,
+  withoutEmpty,
+} from "@/lib/templates";
+
+export type NoticeScenario = 'salary' | 'deposit' | 'cheque' | 'general';
+
+// Section 138(b)-(c) of the Negotiable Instruments Act, 1881: the notice must go out within
+// 30 days of the bank's return memo, and the drawer then has 15 days from receiving it to pay.
+export const CHEQUE_NOTICE_DAYS = 30;
+export const CHEQUE_PAYMENT_DAYS = 15;
+
+export const NOTICE_SCENARIOS: {
+  value: NoticeScenario;
+  label: string;
+  description: string;
+}[] = [
+  {
+    value: 'salary',
+    label: 'Unpaid salary',
+    description: 'Your employer has not paid wages or dues you have earned.',
+  },
+  {
+    value: 'deposit',
+    label: 'Security deposit',
+    description: 'Your landlord has not returned the deposit after you vacated.',
+  },
+  {
+    value: 'cheque',
+    label: 'Cheque bounce (Section 138)',
+    description: 'A cheque given to you was returned unpaid by the bank.',
+  },
+  {
+    value: 'general',
+    label: 'Other demand',
+    description: 'Any other claim: describe what happened and what you want done.',
+  },
+];
+
+export const getNoticeScenario = (value: NoticeScenario) =>
+  NOTICE_SCENARIOS.find((scenario) => scenario.value === value)!;
+
+export const DISHONOUR_REASONS = [
+  'Funds insufficient',
+  'Exceeds arrangement',
+  'Account closed',
+  'Payment stopped by drawer',
+  'Drawer signature differs',
+];
+
+export const DISPATCH_MODES = [
+  { value: 'registered_post', label: 'Registered Post A.D.' },
+  { value: 'speed_post', label: 'Speed Post' },
+  { value: 'courier', label: 'Courier' },
+  { value: 'email', label: 'Email / WhatsApp' },
+] as const;
+
+export type DispatchMode = typeof DISPATCH_MODES[number]['value'];
+
+export const getDispatchModeLabel = (value: string) =>
+  DISPATCH_MODES.find((mode) => mode.value === value)?.label ?? value;
+
+export const addDays = (date: string, days: number) => {
+  const result = new Date(`${date}T00:00:00Z`);
+  result.setUTCDate(result.getUTCDate() + days);
+  return result.toISOString().substring(0, 10);
+};
+
+// Same day of the month, or the last day of a shorter month: 31 January + 1 is 29 February, not 2 March.
+const addMonths = (date: string, months: number) => {
+  const result = new Date(`${date}T00:00:00Z`);
+  const day = result.getUTCDate();
+  result.setUTCDate(1);
+  result.setUTCMonth(result.getUTCMonth() + months);
+  const lastDay = new Date(Date.UTC(result.getUTCFullYear(), result.getUTCMonth() + 1, 0)).getUTCDate();
+  result.setUTCDate(Math.min(day, lastDay));
+  return result.toISOString().substring(0, 10);
+};
+
+export const noticeSchema = z.object({
+  scenario: z.enum(['salary', 'deposit', 'cheque', 'general']),
+
+  senderName: z.string().trim().min(2, 'Enter your full name'),
+  senderAddress: z.string().trim().min(10, 'Enter your full postal address'),
+  recipientName: z.string().trim().min(2, 'Enter the name of the person or company'),
+  recipientAddress: z.string().trim().min(10, 'Enter their postal address'),
+
+  amount: z.string().trim().regex(/^\d*$/, 'Enter the amount in whole rupees'),
+  complianceDays: z.string().trim().regex(/^\d{1,2}$/, 'Enter the number of days'),
+
+  designation: z.string().trim(),
+  employedFrom: z.string(),
+  employedUntil: z.string(),
+  salaryPeriod: z.string().trim(),
+
+  premisesAddress: z.string().trim(),
+  agreementDate: z.string(),
+  vacatedOn: z.string(),
+  deductionsDisputed: z.string().trim(),
+
+  chequeNumber: z.string().trim(),
+  chequeDate: z.string(),
+  bankName: z.string().trim(),
+  liability: z.string().trim(),
+  dishonourReason: z.string().trim(),
+  returnMemoReceivedOn: z.string(),
+
+  facts: z.string().trim(),
+  demand: z.string().trim(),
+
+  date: z.string().min(1, 'Enter the date of the notice'),
+}).superRefine((values, ctx) => {
+  const require = (field: keyof typeof values, message: string) => {
+    if (!values[field]) ctx.addIssue({ code: 'custom', path: [field], message });
+  };
+
+  if (values.scenario !== 'general') require('amount', 'Enter the amount in whole rupees');
+
+  switch (values.scenario) {
+    case 'general':
+      require('facts', 'Describe what happened');
+      require('demand', 'Say what you want them to do');
+      break;
+    case 'salary':
+      require('designation', 'Enter your job title');
+      require('employedFrom', 'Enter when you joined');
+      require('salaryPeriod', 'Enter the months that are unpaid');
+      break;
+    case 'deposit':
+      require('premisesAddress', 'Enter the address of the rented premises');
+      require('vacatedOn', 'Enter the date you handed back possession');
+      break;
+    case 'cheque':
+      require('chequeNumber', 'Enter the cheque number');
+      require('chequeDate', 'Enter the date on the cheque');
+      require('bankName', 'Enter the bank and branch the cheque is drawn on');
+      require('liability', 'Say what debt or liability the cheque was given for');
+      require('dishonourReason', 'Choose the reason on the return memo');
+      require('returnMemoReceivedOn', 'Enter when you received the return memo');
+      if (values.returnMemoReceivedOn && values.date > addDays(values.returnMemoReceivedOn, CHEQUE_NOTICE_DAYS)) {
+        ctx.addIssue({
+          code: 'custom',
+          path: ['date'],
+          message: `Section 138(b) requires the notice within ${CHEQUE_NOTICE_DAYS} days of receiving the return memo (by ${formatDocumentDate(addDays(values.returnMemoReceivedOn, CHEQUE_NOTICE_DAYS))})`,
+        });
+      }
+      if (values.returnMemoReceivedOn && values.chequeDate && values.returnMemoReceivedOn < values.chequeDate) {
+        ctx.addIssue({ code: 'custom', path: ['returnMemoReceivedOn'], message: 'This is before the date on the cheque' });
+      }
+      break;
+  }
+});
+
+export type NoticeValues = z.infer<typeof noticeSchema>;
+
+// Days the recipient gets to comply, counted from receipt. Fixed by statute for cheques.
+export const getComplianceDays = (values: Pick<NoticeValues, 'scenario' | 'complianceDays'>) =>
+  values.scenario === 'cheque' ? CHEQUE_PAYMENT_DAYS : Number(values.complianceDays);
+
+const scenarioParagraphs = (values: NoticeValues) => {
+  const amount = formatRupees(Number(values.amount));
+  const days = getComplianceDays(values);
+
+  switch (values.scenario) {
+    case 'general':
+      return [
+        values.facts,
+        'That despite my requests, you have failed to resolve the matter.',
+        `That I therefore call upon you to ${values.demand} within ${days} days of receiving this notice, failing which I shall be constrained to initiate appropriate civil and/or criminal proceedings against you, entirely at your risk as to costs and consequences.`,
+      ];
+    case 'salary':
+      return [
+        `That I was employed with you as ${values.designation} from ${formatDocumentDate(values.employedFrom)}${values.employedUntil ? ` to ${formatDocumentDate(values.employedUntil)}` : ''}, and discharged my duties diligently throughout.`,
+        `That you have failed to pay my salary for ${values.salaryPeriod}, amounting to ${amount}, despite my repeated requests.`,
+        'That wages once earned must be paid within the time limits in Section 17 of the Code on Wages, 2019, and withholding them is unlawful.',
+        `That I therefore call upon you to pay me ${amount} within ${days} days of receiving this notice, failing which I shall initiate proceedings before the appropriate authority and court for recovery of the amount with interest and costs, entirely at your risk as to costs and consequences.`,
+      ];
+    case 'deposit':
+      return [
+        `That I occupied the premises at ${values.premisesAddress} as your tenant${values.agreementDate ? ` under an agreement dated ${formatDocumentDate(values.agreementDate)}` : ''}, and paid you a refundable security deposit of ${amount}.`,
+        `That I vacated the premises and handed over vacant possession to you on ${formatDocumentDate(values.vacatedOn)}, in the condition in which I received it subject to normal wear and tear, after clearing all dues.`,
+        `That despite my requests you have failed to refund the security deposit.${values.deductionsDisputed ? ` Your claim to deduct amounts for ${values.deductionsDisputed} is denied as baseless.` : ''}`,
+        `That I therefore call upon you to refund ${amount} within ${days} days of receiving this notice, failing which I shall file a suit for recovery of the amount with interest and costs, entirely at your risk as to costs and consequences.`,
+      ];
+    case 'cheque':
+      return [
+        `That you issued cheque no. ${values.chequeNumber} dated ${formatDocumentDate(values.chequeDate)} for ${amount}, drawn on ${values.bankName}, in favour of me, in discharge of ${values.liability}.`,
+        `That I presented the cheque for payment within its validity, and it was returned unpaid with the remark "${values.dishonourReason}". I received the bank's return memo on ${formatDocumentDate(values.returnMemoReceivedOn)}.`,
+        `That this notice is issued under clause (b) of the proviso to Section 138 of the Negotiable Instruments Act, 1881, within ${CHEQUE_NOTICE_DAYS} days of my receiving that information from the bank.`,
+        `That I hereby demand payment of the said amount of ${amount} within ${CHEQUE_PAYMENT_DAYS} days of your receiving this notice. If you fail to pay, you will have committed an offence under Section 138 of the Act, punishable with imprisonment of up to two years, or fine of up to twice the amount of the cheque, or both, and I shall file a complaint against you under Section 142 of the Act, entirely at your risk as to costs and consequences.`,
+      ];
+  }
+};
+
+export const buildNotice = (values: NoticeValues) =>
+  [
+    'LEGAL NOTICE',
+    ...(values.scenario === 'cheque' ? ['(Under Section 138 of the Negotiable Instruments Act, 1881)'] : []),
+    '',
+    `Date: ${formatDocumentDate(values.date)}`,
+    '',
+    'To,',
+    values.recipientName,
+    values.recipientAddress,
+    '',
+    'From,',
+    values.senderName,
+    values.senderAddress,
+    '',
+    'Sir/Madam,',
+    '',
+    `I, ${values.senderName}, hereby serve you with this legal notice as follows:`,
+    '',
+    scenarioParagraphs(values).map((text, index) => `${index + 1}. ${text}`).join('\n\n'),
+    '',
+    'I have retained a copy of this notice for my records and further action.',
+    '',
+    '(Signature)',
+    values.senderName,
+  ].join('\n');
+
+export const noticeTitle = (values: Pick<NoticeValues, 'scenario' | 'recipientName'>) =>
+  `${getNoticeScenario(values.scenario).label} notice to ${values.recipientName}`;
+
+export interface NoticeDispatch {
+  dispatchedOn: string;
+  mode: DispatchMode;
+  trackingNumber: string;
+  // Null until the postal tracking or acknowledgement card confirms delivery
+  deliveredOn: string | null;
+}
+
+// Stored in saved_items.data for item_type 'notice'.
+export interface NoticeRecord {
+  values: NoticeValues;
+  dispatch: NoticeDispatch | null;
+}
+
+export interface NoticeDeadlines {
+  // Last day for the recipient to comply
+  responseDue: string;
+  // The period runs from receipt; until delivery is recorded it is counted from dispatch
+  estimated: boolean;
+  // Section 142(1)(b): a cheque-bounce complaint must be filed within one month of the
+  // cause of action, which arises when the 15 days to pay run out
+  complaintWindow: { from: string; to: string } | null;
+}
+
+export const computeDeadlines = (record: NoticeRecord): NoticeDeadlines | null => {
+  if (!record.dispatch) return null;
+
+  const start = record.dispatch.deliveredOn ?? record.dispatch.dispatchedOn;
+  const responseDue = addDays(start, getComplianceDays(record.values));
+  const complaintFrom = addDays(responseDue, 1);
+
+  return {
+    responseDue,
+    estimated: !record.dispatch.deliveredOn,
+    complaintWindow: record.values.scenario === 'cheque'
+      ? { from: complaintFrom, to: addMonths(complaintFrom, 1) }
+      : null,
+  };
+};
+
+const isNoticeScenario = (value?: string): value is NoticeScenario =>
+  NOTICE_SCENARIOS.some((scenario) => scenario.value === value);
+
+// Maps the legal-notice template fields a chat suggestion filled in onto the builder.
+export const noticePrefill = (fields: TemplateValues): Partial<NoticeValues> => {
+  const text = (name: string) => fields[name]?.trim() ?? '';
+
+  return withoutEmpty({
+    scenario: isNoticeScenario(fields.scenario) ? fields.scenario : undefined,
+    senderName: text('sender_name'),
+    senderAddress: text('sender_address'),
+    recipientName: text('recipient_name'),
+    recipientAddress: text('recipient_address'),
+    amount: prefillAmount(fields.amount),
+    designation: text('designation'),
+    salaryPeriod: text('salary_period'),
+    premisesAddress: text('premises_address'),
+    vacatedOn: prefillDate(fields.vacated_on),
+    chequeNumber: text('cheque_number'),
+    chequeDate: prefillDate(fields.cheque_date),
+    bankName: text('bank_name'),
+    liability: text('liability'),
+    returnMemoReceivedOn: prefillDate(fields.return_memo_received_on),
+    facts: text('facts'),
+    demand: text('demand'),
+  });
+};
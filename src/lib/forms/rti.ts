@@ -0,0 +1,183 @@
+import { z } from "zod";
+import { TemplateValues, formatDocumentDate, prefillDate, splitFirstLine, withoutEmpty } from "@/lib/templates";
+
+// Fee under Rule 3 of the RTI Rules, 2012 for central public authorities. States set
+// their own fees, so the amount stays editable.
+export const RTI_CENTRAL_FEE = '10';
+
+// Rule 3 of the RTI Rules, 2012: applications should ordinarily stay within 500 words,
+// though a PIO may not reject one only for being longer.
+export const RTI_WORD_LIMIT = 500;
+
+export const RTI_FEE_MODES = [
+  { value: 'ipo', label: 'Indian Postal Order', reference: 'IPO number' },
+  { value: 'dd', label: 'Demand draft', reference: 'Demand draft number' },
+  { value: 'bankers_cheque', label: "Banker's cheque", reference: "Banker's cheque number" },
+  { value: 'cash', label: 'Cash at the office', reference: 'Receipt number' },
+  { value: 'court_fee_stamp', label: 'Court fee stamp', reference: 'Stamp details' },
+  { value: 'online', label: 'Online payment', reference: 'Transaction ID' },
+] as const;
+
+export const RTI_DELIVERY_MODES = [
+  { value: 'post', label: 'Copies by post' },
+  { value: 'email', label: 'Copies by email' },
+  { value: 'inspection', label: 'Inspection of records' },
+] as const;
+
+type FeeMode = typeof RTI_FEE_MODES[number]['value'];
+
+const feeModeValues = RTI_FEE_MODES.map((mode) => mode.value) as [FeeMode, ...FeeMode[]];
+
+export const rtiSchema = z.object({
+  applicantName: z.string().trim().min(2, 'Enter your full name'),
+  address: z.string().trim().min(10, 'Enter your full postal address'),
+  pinCode: z.string().trim().regex(/^\d{6}$/, 'PIN code must be 6 digits'),
+  phone: z.string().trim().regex(/^(\+91[\s-]?)?[6-9]\d{9}$/, 'Enter a 10-digit mobile number').or(z.literal('')),
+  email: z.string().trim().email('Enter a valid email address').or(z.literal('')),
+  citizen: z.boolean().refine((value) => value, 'Only citizens of India can apply under Section 3 of the RTI Act'),
+
+  government: z.enum(['central', 'state']),
+  authorityName: z.string().trim().min(3, 'Name the department or office that holds the information'),
+  authorityAddress: z.string().trim().min(10, 'Enter the office address'),
+
+  informationItems: z
+    .array(z.object({ text: z.string().trim().min(10, 'Describe the information specifically') }))
+    .min(1, 'Ask for at least one piece of information'),
+  period: z.string().trim(),
+  deliveryMode: z.enum(['post', 'email', 'inspection']),
+  lifeOrLiberty: z.boolean(),
+  lifeOrLibertyReason: z.string().trim(),
+
+  bpl: z.boolean(),
+  bplCardNumber: z.string().trim(),
+  bplProofAttached: z.boolean(),
+  feeAmount: z.string().trim(),
+  feeMode: z.enum(feeModeValues).optional(),
+  feeReference: z.string().trim(),
+  place: z.string().trim().min(2, 'Enter the place of signing'),
+  date: z.string().min(1, 'Enter the date'),
+}).superRefine((values, ctx) => {
+  if (values.deliveryMode === 'email' && !values.email) {
+    ctx.addIssue({ code: 'custom', path: ['deliveryMode'], message: 'Add your email address in the first step to get copies by email' });
+  }
+  if (values.lifeOrLiberty && values.lifeOrLibertyReason.length < 10) {
+    ctx.addIssue({ code: 'custom', path: ['lifeOrLibertyReason'], message: 'Explain how the information concerns life or liberty' });
+  }
+
+  // Section 7(5): no fee for applicants below the poverty line, but the exemption only
+  // holds with proof of BPL status attached.
+  if (values.bpl) {
+    if (!values.bplCardNumber) {
+      ctx.addIssue({ code: 'custom', path: ['bplCardNumber'], message: 'Enter your BPL card or certificate number' });
+    }
+    if (!values.bplProofAttached) {
+      ctx.addIssue({ code: 'custom', path: ['bplProofAttached'], message: 'Attach a copy of your BPL card, or the PIO can ask you to pay the fee' });
+    }
+    return;
+  }
+
+  if (!/^\d+$/.test(values.feeAmount)) {
+    ctx.addIssue({ code: 'custom', path: ['feeAmount'], message: 'Enter the fee in whole rupees' });
+  }
+  if (!values.feeMode) {
+    ctx.addIssue({ code: 'custom', path: ['feeMode'], message: 'Choose how you are paying the fee' });
+  } else if (!values.feeReference) {
+    ctx.addIssue({ code: 'custom', path: ['feeReference'], message: `Enter the ${getFeeMode(values.feeMode).reference.toLowerCase()}` });
+  }
+});
+
+export type RtiValues = z.infer<typeof rtiSchema>;
+
+export const getFeeMode = (value: FeeMode) => RTI_FEE_MODES.find((mode) => mode.value === value)!;
+
+export const countWords = (text: string) => text.trim().split(/\s+/).filter(Boolean).length;
+
+const itemLabel = (index: number) => `(${String.fromCharCode(97 + index)})`;
+
+const feeLine = (values: RtiValues) => {
+  if (values.bpl) {
+    return `Exempt. I belong to the Below Poverty Line category (BPL card no. ${values.bplCardNumber}) and a copy of my BPL card is enclosed, as provided in Section 7(5) of the Act.`;
+  }
+  const mode = values.feeMode ? getFeeMode(values.feeMode) : null;
+  return `Rs. ${values.feeAmount} paid by ${mode ? `${mode.label.toLowerCase()} (${mode.reference}: ${values.feeReference})` : '[fee mode]'}.`;
+};
+
+const deliveryLine = (values: RtiValues) => {
+  switch (values.deliveryMode) {
+    case 'email':
+      return `Certified copies by email to ${values.email}.`;
+    case 'inspection':
+      return 'Inspection of the relevant records under Section 2(j)(i), followed by copies of the documents I select.';
+    default:
+      return 'Certified copies by post to the address above.';
+  }
+};
+
+// The application in the format most PIOs expect (cf. the Central RTI Rules, 2012
+// model form): numbered particulars, the request, declaration and enclosures.
+export const buildRtiApplication = (values: RtiValues) => {
+  const contact = [values.phone && `Phone: ${values.phone}`, values.email && `Email: ${values.email}`].filter(Boolean);
+  const enclosures = values.bpl
+    ? ['Copy of BPL card / certificate']
+    : values.feeMode && values.feeMode !== 'online' && values.feeMode !== 'cash'
+      ? [`${getFeeMode(values.feeMode).label} for Rs. ${values.feeAmount}`]
+      : [];
+
+  const particulars = [
+    `Full name of the applicant: ${values.applicantName}`,
+    `Address for correspondence: ${values.address} - ${values.pinCode}`,
+    ...(contact.length > 0 ? [`Contact details: ${contact.join(', ')}`] : []),
+    `Particulars of the information sought:\n${values.informationItems
+      .map((item, index) => `   ${itemLabel(index)} ${item.text}`)
+      .join('\n')}`,
+    ...(values.period ? [`Period to which the information relates: ${values.period}`] : []),
+    `Preferred mode of receiving the information: ${deliveryLine(values)}`,
+    `Application fee: ${feeLine(values)}`,
+    ...(values.lifeOrLiberty
+      ? [`This information concerns the life or liberty of a person and must be supplied within 48 hours under the proviso to Section 7(1) of the Act, because: ${values.lifeOrLibertyReason}`]
+      : []),
+  ];
+
+  return [
+    'To,',
+    'The Public Information Officer,',
+    values.authorityName,
+    values.authorityAddress,
+    '',
+    'Subject: Application for information under Section 6(1) of the Right to Information Act, 2005',
+    '',
+    'Sir/Madam,',
+    '',
+    particulars.map((line, index) => `${index + 1}. ${line}`).join('\n\n'),
+    '',
+    'I declare that I am a citizen of India. Under Section 6(2) of the Act I am not required to give reasons for this request. If any of this information is held by another public authority, please transfer that part of the application to it under Section 6(3) within five days and inform me.',
+    '',
+    `Place: ${values.place}`,
+    `Date: ${formatDocumentDate(values.date)}`,
+    '',
+    '(Signature of the applicant)',
+    values.applicantName,
+    ...(enclosures.length > 0 ? ['', 'Enclosures:', ...enclosures.map((item, index) => `${index + 1}. ${item}`)] : []),
+  ].join('\n');
+};
+
+// Maps the rti-application template fields a chat suggestion filled in onto the wizard.
+export const rtiPrefill = (fields: TemplateValues): Partial<RtiValues> => {
+  const [authorityName, authorityAddress] = splitFirstLine(fields.public_authority);
+  const informationItems = (fields.information_sought ?? '')
+    .split('\n')
+    .map((line) => line.replace(/^\s*(\d+[.)]|[-*\u2022])\s*/, '').trim())
+    .filter(Boolean)
+    .map((text) => ({ text }));
+
+  return withoutEmpty({
+    applicantName: fields.applicant_name?.trim() ?? '',
+    address: fields.applicant_address?.trim() ?? '',
+    authorityName,
+    authorityAddress,
+    informationItems: informationItems.length > 0 ? informationItems : undefined,
+    period: fields.period?.trim() ?? '',
+    place: fields.place?.trim() ?? '',
+    date: prefillDate(fields.date),
+  });
+};
@@ -0,0 +1,143 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import { streamLegalChat } from "@/lib/legal-chat/client";
+import { LegalChatError } from "@/lib/legal-chat/errors";
+import { LegalChatEvent } from "@/lib/legal-chat/protocol";
+
+const encoder = new TextEncoder();
+
+const frame = (event: Record<string, unknown>) => `event: ${event.type}\ndata: ${JSON.stringify({ v: 1, ...event })}\n\n`;
+
+// A response body that delivers `chunks` one read at a time, then stays open when `hang` is set.
+const mockStream = (chunks: string[], { hang = false } = {}) => {
+  const cancel = vi.fn();
+  let index = 0;
+  const body = new ReadableStream<Uint8Array>({
+    pull(controller) {
+      if (index < chunks.length) {
+        controller.enqueue(encoder.encode(chunks[index++]));
+      } else if (!hang) {
+        controller.close();
+      }
+    },
+    cancel,
+  });
+  return { body, cancel };
+};
+
+const mockFetch = (response: Response) => {
+  const fetchMock = vi.fn().mockResolvedValue(response);
+  vi.stubGlobal('fetch', fetchMock);
+  return fetchMock;
+};
+
+const collect = async (events: AsyncGenerator<LegalChatEvent>) => {
+  const collected: LegalChatEvent[] = [];
+  for await (const event of events) collected.push(event);
+  return collected;
+};
+
+const request = (signal?: AbortSignal) => streamLegalChat({
+  accessToken: 'token',
+  messages: [{ role: 'user', content: 'What is Section 138?' }],
+  signal,
+});
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+});
+
+describe('streamLegalChat', () => {
+  it('yields events from frames split across chunks', async () => {
+    const stream = frame({ type: 'token', text: 'Hello' }) + frame({ type: 'token', text: ' world' })
+      + frame({ type: 'done', usage: { promptTokens: 3, completionTokens: 2 } });
+    mockFetch(new Response(mockStream([stream.slice(0, 10), stream.slice(10, 47), stream.slice(47)]).body));
+
+    expect(await collect(request())).toEqual([
+      { type: 'token', text: 'Hello' },
+      { type: 'token', text: ' world' },
+      { type: 'done', usage: { promptTokens: 3, completionTokens: 2 } },
+    ]);
+  });
+
+  it('splits multi-byte characters across chunks without corrupting them', async () => {
+    const bytes = encoder.encode(frame({ type: 'token', text: 'धारा १३८' }));
+    const body = new ReadableStream<Uint8Array>({
+      start(controller) {
+        controller.enqueue(bytes.slice(0, 40));
+        controller.enqueue(bytes.slice(40));
+        controller.close();
+      },
+    });
+    mockFetch(new Response(body));
+
+    expect(await collect(request())).toEqual([{ type: 'token', text: 'धारा १३८' }]);
+  });
+
+  it('accepts CRLF line endings', async () => {
+    const stream = frame({ type: 'token', text: 'a' }).replace(/\n/g, '\r\n');
+    mockFetch(new Response(mockStream([stream.slice(0, 15), stream.slice(15)]).body));
+
+    expect(await collect(request())).toEqual([{ type: 'token', text: 'a' }]);
+  });
+
+  it('joins a JSON payload spread over several data lines', async () => {
+    mockFetch(new Response(mockStream(['event: token\ndata: {"v":1,\ndata: "type":"token","text":"a"}\n\n']).body));
+
+    expect(await collect(request())).toEqual([{ type: 'token', text: 'a' }]);
+  });
+
+  it('stops at [DONE] and releases the connection', async () => {
+    const { body, cancel } = mockStream([frame({ type: 'token', text: 'a' }), 'data: [DONE]\n\n', frame({ type: 'token', text: 'b' })], { hang: true });
+    mockFetch(new Response(body));
+
+    expect(await collect(request())).toEqual([{ type: 'token', text: 'a' }]);
+    expect(cancel).toHaveBeenCalled();
+  });
+
+  it('keeps yielding follow-up events after done until the stream closes', async () => {
+    mockFetch(new Response(mockStream([
+      frame({ type: 'done', usage: { promptTokens: 1, completionTokens: 1 } }),
+      frame({ type: 'title', title: 'Cheque bounce notice' }),
+    ]).body));
+
+    expect(await collect(request())).toEqual([
+      { type: 'done', usage: { promptTokens: 1, completionTokens: 1 } },
+      { type: 'title', title: 'Cheque bounce notice' },
+    ]);
+  });
+
+  it('rejects with an AbortError when aborted mid-stream', async () => {
+    const abortController = new AbortController();
+    // Like fetch, error the body with the signal's AbortError once the request is aborted.
+    const body = new ReadableStream<Uint8Array>({
+      start(controller) {
+        controller.enqueue(encoder.encode(frame({ type: 'token', text: 'a' }).slice(0, 20)));
+        controller.enqueue(encoder.encode(frame({ type: 'token', text: 'a' }).slice(20)));
+        abortController.signal.addEventListener('abort', () => controller.error(abortController.signal.reason));
+      },
+    });
+    mockFetch(new Response(body));
+
+    const events = request(abortController.signal);
+    expect(await events.next()).toEqual({ done: false, value: { type: 'token', text: 'a' } });
+
+    const pending = events.next();
+    abortController.abort();
+    await expect(pending).rejects.toMatchObject({ name: 'AbortError' });
+    expect(await events.next()).toEqual({ done: true, value: undefined });
+  });
+
+  it('passes the abort signal to fetch', async () => {
+    const abortController = new AbortController();
+    const fetchMock = mockFetch(new Response(mockStream([]).body));
+
+    await collect(request(abortController.signal));
+    expect(fetchMock.mock.calls[0][1].signal).toBe(abortController.signal);
+  });
+
+  it('throws a LegalChatError for error responses', async () => {
+    mockFetch(new Response(JSON.stringify({ error: 'Slow down', code: 'rate_limited', scope: 'user', retryAfter: 12 }), { status: 429 }));
+
+    await expect(collect(request())).rejects.toBeInstanceOf(LegalChatError);
+  });
+});
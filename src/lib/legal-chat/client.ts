@@ -0,0 +1,90 @@
+import { toLegalChatError } from "@/lib/legal-chat/errors";
+import { LegalChatEvent, parseLegalChatEvent } from "@/lib/legal-chat/protocol";
+import { createSseParser } from "@/lib/legal-chat/sse";
+
+export interface LegalChatRequestMessage {
+  // Lets the server line the history up with the conversation's stored summary
+  id?: string;
+  role: 'user' | 'assistant';
+  content: string;
+}
+
+export interface StreamLegalChatOptions {
+  accessToken: string;
+  messages: LegalChatRequestMessage[];
+  conversationId?: string | null;
+  // Client-generated ids for the persisted turns, so branches can be built without a refetch
+  userMessageId?: string;
+  assistantMessageId?: string;
+  parentId?: string | null;
+  // Answer `userMessageId` again instead of saving a new user turn
+  regenerate?: boolean;
+  signal?: AbortSignal;
+}
+
+const LEGAL_CHAT_URL = `${import.meta.env.VITE_SUPABASE_URL}/functions/v1/legal-chat`;
+
+// Calls the legal-chat edge function and yields protocol events as they arrive, including the
+// follow-up events sent after `done`, until the server closes the stream.
+// Non-2xx responses throw a LegalChatError; aborting `signal` cancels the request and
+// the read loop (the fetch/read rejects with an AbortError).
+export async function* streamLegalChat({
+  accessToken,
+  messages,
+  conversationId,
+  userMessageId,
+  assistantMessageId,
+  parentId,
+  regenerate,
+  signal,
+}: StreamLegalChatOptions): AsyncGenerator<LegalChatEvent> {
+  const response = await fetch(LEGAL_CHAT_URL, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      'Authorization': `Bearer ${accessToken}`,
+    },
+    body: JSON.stringify({
+      messages,
+      conversation_id: conversationId,
+      user_message_id: userMessageId,
+      assistant_message_id: assistantMessageId,
+      parent_id: parentId,
+      regenerate,
+    }),
+    signal,
+  });
+
+  if (!response.ok || !response.body) {
+    throw await toLegalChatError(response);
+  }
+
+  const reader = response.body.getReader();
+  const decoder = new TextDecoder();
+  const parser = createSseParser();
+  let finished = false;
+
+  try {
+    while (!finished) {
+      const { done, value } = await reader.read();
+      const frames = done
+        ? [...parser.push(decoder.decode()), ...parser.flush()]
+        : parser.push(decoder.decode(value, { stream: true }));
+
+      for (const frame of frames) {
+        if (frame.data === '[DONE]') {
+          finished = true;
+          break;
+        }
+
+        const event = parseLegalChatEvent(frame.data);
+        if (event) yield event;
+      }
+
+      if (done) break;
+    }
+  } finally {
+    // Releases the connection when the consumer stops early (break/return/throw) or aborts.
+    await reader.cancel().catch(() => undefined);
+  }
+}
@@ -0,0 +1,48 @@
+export type LegalChatErrorCode =
+  | 'unauthorized'
+  | 'invalid_request'
+  | 'conversation_not_found'
+  | 'rate_limited'
+  | 'upstream_rate_limited'
+  | 'service_unavailable'
+  | 'ai_service_error'
+  | 'internal_error';
+
+export type RateLimitScope = 'user' | 'ip' | 'daily_tokens';
+
+interface LegalChatErrorBody {
+  error: string;
+  code: LegalChatErrorCode;
+  scope?: RateLimitScope;
+  retryAfter?: number;
+}
+
+export class LegalChatError extends Error {
+  status: number;
+  code: LegalChatErrorCode;
+  scope?: RateLimitScope;
+  retryAfter?: number;
+
+  constructor(status: number, body: LegalChatErrorBody) {
+    super(body.error);
+    this.name = 'LegalChatError';
+    this.status = status;
+    this.code = body.code;
+    this.scope = body.scope;
+    this.retryAfter = body.retryAfter;
+  }
+}
+
+// Builds a LegalChatError from a non-2xx legal-chat response. Falls back to the
+// Retry-After header when the body is missing or isn't JSON.
+export const toLegalChatError = async (response: Response) => {
+  const body: Partial<LegalChatErrorBody> | null = await response.json().catch(() => null);
+  const retryAfterHeader = Number(response.headers.get('Retry-After'));
+
+  return new LegalChatError(response.status, {
+    error: body?.error || 'Failed to get response',
+    code: body?.code ?? 'internal_error',
+    scope: body?.scope,
+    retryAfter: body?.retryAfter ?? (Number.isFinite(retryAfterHeader) && retryAfterHeader > 0 ? retryAfterHeader : undefined),
+  });
+};
@@ -0,0 +1,120 @@
+// Client side of the legal-chat stream protocol.
+// Keep in sync with supabase/functions/legal-chat/protocol.ts.
+export const PROTOCOL_VERSION = 1;
+
+export interface TokenEvent {
+  type: 'token';
+  text: string;
+}
+
+export interface CitationEvent {
+  type: 'citation';
+  sectionId: string;
+  act: string;
+  sectionNumber: string;
+  title: string;
+}
+
+export interface SuggestionEvent {
+  type: 'suggestion';
+  kind: 'template';
+  templateId: string;
+  label: string;
+  fields: Record<string, string>;
+}
+
+export interface TitleEvent {
+  type: 'title';
+  title: string;
+}
+
+export interface ErrorEvent {
+  type: 'error';
+  code: string;
+  message: string;
+}
+
+// The answer is complete (or was cut short by an error). Follow-up events such as a save
+// failure, title or suggestion may still arrive before the stream closes.
+export interface DoneEvent {
+  type: 'done';
+  usage: {
+    promptTokens: number;
+    completionTokens: number;
+  };
+}
+
+export type LegalChatEvent = TokenEvent | CitationEvent | SuggestionEvent | TitleEvent | ErrorEvent | DoneEvent;
+
+export class ProtocolError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ProtocolError';
+  }
+}
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+// Validates one SSE `data:` payload. Returns null for event types this client doesn't know
+// (so newer servers can add events), and throws on malformed frames or a different major version.
+export const parseLegalChatEvent = (data: string): LegalChatEvent | null => {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(data);
+  } catch {
+    throw new ProtocolError('Malformed stream event');
+  }
+
+  if (!isRecord(parsed)) throw new ProtocolError('Malformed stream event');
+  if (parsed.v !== PROTOCOL_VERSION) {
+    throw new ProtocolError(`Unsupported stream protocol version: ${String(parsed.v)}`);
+  }
+
+  switch (parsed.type) {
+    case 'token':
+      if (typeof parsed.text !== 'string') throw new ProtocolError('Invalid token event');
+      return { type: 'token', text: parsed.text };
+    case 'citation':
+      if (typeof parsed.sectionId !== 'string') throw new ProtocolError('Invalid citation event');
+      return {
+        type: 'citation',
+        sectionId: parsed.sectionId,
+        act: String(parsed.act ?? ''),
+        sectionNumber: String(parsed.sectionNumber ?? ''),
+        title: String(parsed.title ?? ''),
+      };
+    case 'suggestion':
+      if (parsed.kind !== 'template' || typeof parsed.templateId !== 'string') return null;
+      return {
+        type: 'suggestion',
+        kind: 'template',
+        templateId: parsed.templateId,
+        label: String(parsed.label ?? ''),
+        fields: isRecord(parsed.fields)
+          ? Object.fromEntries(Object.entries(parsed.fields).map(([key, value]) => [key, String(value)]))
+          : {},
+      };
+    case 'title':
+      if (typeof parsed.title !== 'string') throw new ProtocolError('Invalid title event');
+      return { type: 'title', title: parsed.title };
+    case 'error':
+      return {
+        type: 'error',
+        code: String(parsed.code ?? 'stream_error'),
+        message: String(parsed.message ?? 'Something went wrong while generating the answer'),
+      };
+    case 'done': {
+      const usage = isRecord(parsed.usage) ? parsed.usage : {};
+      return {
+        type: 'done',
+        usage: {
+          promptTokens: Number(usage.promptTokens ?? 0),
+          completionTokens: Number(usage.completionTokens ?? 0),
+        },
+      };
+    }
+    default:
+      return null;
+  }
+};
@@ -0,0 +1,51 @@
+import { describe, expect, it } from "vitest";
+import { createSseParser } from "@/lib/legal-chat/sse";
+
+// Feeds each chunk in turn, the way the network delivers them, and collects every frame.
+const parseChunks = (chunks: string[]) => {
+  const parser = createSseParser();
+  return [...chunks.flatMap((chunk) => parser.push(chunk)), ...parser.flush()];
+};
+
+describe('createSseParser', () => {
+  it('parses complete frames', () => {
+    expect(parseChunks(['event: token\ndata: {"text":"a"}\n\nevent: done\ndata: {}\n\n'])).toEqual([
+      { event: 'token', data: '{"text":"a"}' },
+      { event: 'done', data: '{}' },
+    ]);
+  });
+
+  it('reassembles frames split across chunks', () => {
+    expect(parseChunks(['event: tok', 'en\ndata: {"te', 'xt":"a"}\n', '\nevent: done\n', 'data: {}\n\n'])).toEqual([
+      { event: 'token', data: '{"text":"a"}' },
+      { event: 'done', data: '{}' },
+    ]);
+  });
+
+  it('handles CRLF line endings, including a CR and LF in different chunks', () => {
+    expect(parseChunks(['event: token\r\ndata: {"text":"a"}\r', '\n\r\ndata: b\r\n\r\n'])).toEqual([
+      { event: 'token', data: '{"text":"a"}' },
+      { event: 'message', data: 'b' },
+    ]);
+  });
+
+  it('joins multi-line data fields with newlines', () => {
+    expect(parseChunks(['data: first\ndata:second\n', 'data:  third\n\n'])).toEqual([
+      { event: 'message', data: 'first\nsecond\n third' },
+    ]);
+  });
+
+  it('skips comments and frames without data', () => {
+    expect(parseChunks([': keep-alive\n\nevent: ping\n\ndata: x\n\n'])).toEqual([
+      { event: 'message', data: 'x' },
+    ]);
+  });
+
+  it('passes [DONE] through as a data frame', () => {
+    expect(parseChunks(['data: [DONE]\n\n'])).toEqual([{ event: 'message', data: '[DONE]' }]);
+  });
+
+  it('flushes a final frame without a trailing blank line', () => {
+    expect(parseChunks(['event: done\ndata: {}'])).toEqual([{ event: 'done', data: '{}' }]);
+  });
+});
@@ -0,0 +1,57 @@
+export interface SseFrame {
+  event: string;
+  data: string;
+}
+
+// Incremental Server-Sent Events parser. Feed it decoded text in whatever chunks the network
+// delivers; it returns every frame completed so far. Handles CRLF line endings, comment lines,
+// and frames with several `data:` lines (joined with "\n", per the SSE spec).
+export const createSseParser = () => {
+  let buffer = '';
+  let event = 'message';
+  let data: string[] = [];
+
+  const processLine = (line: string, frames: SseFrame[]) => {
+    if (line === '') {
+      if (data.length > 0) frames.push({ event, data: data.join('\n') });
+      event = 'message';
+      data = [];
+      return;
+    }
+    if (line.startsWith(':')) return;
+
+    const colon = line.indexOf(':');
+    const field = colon === -1 ? line : line.slice(0, colon);
+    let value = colon === -1 ? '' : line.slice(colon + 1);
+    if (value.startsWith(' ')) value = value.slice(1);
+
+    if (field === 'event') event = value;
+    else if (field === 'data') data.push(value);
+  };
+
+  return {
+    push(chunk: string): SseFrame[] {
+      const frames: SseFrame[] = [];
+      buffer += chunk;
+
+      let newlineIndex: number;
+      while ((newlineIndex = buffer.indexOf('\n')) !== -1) {
+        let line = buffer.slice(0, newlineIndex);
+        buffer = buffer.slice(newlineIndex + 1);
+        if (line.endsWith('\r')) line = line.slice(0, -1);
+        processLine(line, frames);
+      }
+
+      return frames;
+    },
+
+    // Dispatches a final frame the server didn't terminate with a blank line.
+    flush(): SseFrame[] {
+      const frames: SseFrame[] = [];
+      if (buffer) processLine(buffer.endsWith('\r') ? buffer.slice(0, -1) : buffer, frames);
+      buffer = '';
+      processLine('', frames);
+      return frames;
+    },
+  };
+};
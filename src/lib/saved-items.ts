@@ -0,0 +1,18 @@
+// Keep in sync with the saved_items.item_type check constraint.
+export type SavedItemType = 'chat' | 'form' | 'topic' | 'notice';
+
+export const SAVED_ITEM_TYPES: { value: SavedItemType; label: string }[] = [
+  { value: 'chat', label: 'Answers' },
+  { value: 'form', label: 'Forms' },
+  { value: 'topic', label: 'Topics' },
+  { value: 'notice', label: 'Notices' },
+];
+
+export const getSavedItemTypeLabel = (type: string) =>
+  SAVED_ITEM_TYPES.find((item) => item.value === type)?.label ?? type;
+
+// Suggested bookmark title: the first line of the text, shortened to fit a list row.
+export const defaultBookmarkTitle = (text: string, maxLength = 80) => {
+  const firstLine = text.trim().split('\n')[0].replace(/^#+\s*/, '').trim();
+  return firstLine.length > maxLength ? `${firstLine.substring(0, maxLength)}...` : firstLine;
+};
@@ -0,0 +1,69 @@
+interface StatuteActFile {
+  code: string;
+  act: string;
+  short_name: string;
+  aliases: string[];
+  effective_from: string | null;
+  effective_to: string | null;
+  sections: {
+    number: string;
+    title: string;
+    text: string;
+    corresponds_to?: string[];
+  }[];
+}
+
+export interface StatuteAct {
+  code: string;
+  act: string;
+  shortName: string;
+  aliases: string[];
+}
+
+export interface StatuteSection {
+  id: string;
+  act: string;
+  actShortName: string;
+  sectionNumber: string;
+  title: string;
+  text: string;
+  effectiveFrom: string | null;
+  effectiveTo: string | null;
+  correspondsTo: string[];
+}
+
+// Must match statuteId() in scripts/seed-statutes.mjs, which loads the same files into Postgres.
+export const statuteId = (code: string, sectionNumber: string) =>
+  `${code}-${sectionNumber.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/-$/, '')}`;
+
+const actFiles = import.meta.glob<StatuteActFile>('../data/statutes/*.json', { eager: true, import: 'default' });
+
+export const ACTS: StatuteAct[] = Object.values(actFiles).map((act) => ({
+  code: act.code,
+  act: act.act,
+  shortName: act.short_name,
+  aliases: act.aliases,
+}));
+
+export const STATUTES = new Map<string, StatuteSection>(
+  Object.values(actFiles).flatMap((act) =>
+    act.sections.map((section): [string, StatuteSection] => {
+      const id = statuteId(act.code, section.number);
+      return [id, {
+        id,
+        act: act.act,
+        actShortName: act.short_name,
+        sectionNumber: section.number,
+        title: section.title,
+        text: section.text,
+        effectiveFrom: act.effective_from,
+        effectiveTo: act.effective_to,
+        correspondsTo: section.corresponds_to ?? [],
+      }];
+    })
+  )
+);
+
+export const getStatute = (id: string) => STATUTES.get(id);
+
+export const formatStatuteLabel = (section: StatuteSection) => `${section.actShortName} s. ${section.sectionNumber}`;
@@ -0,0 +1,83 @@
+import type { Tables } from '@/integrations/supabase/types';
+
+export type TemplateFieldType = 'text' | 'textarea' | 'date' | 'number';
+
+// One entry of legal_templates.fields; `name` matches a {{name}} placeholder in the body.
+export interface TemplateField {
+  name: string;
+  label: string;
+  type: TemplateFieldType;
+  required?: boolean;
+  placeholder?: string;
+  help?: string;
+}
+
+export interface LegalTemplate {
+  id: string;
+  slug: string;
+  title: string;
+  description: string;
+  category: string;
+  jurisdiction: string;
+  language: string;
+  fields: TemplateField[];
+  body: string;
+}
+
+export type TemplateValues = Record<string, string>;
+
+export const toLegalTemplate = (row: Tables<'legal_templates'>): LegalTemplate => ({
+  id: row.id,
+  slug: row.slug,
+  title: row.title,
+  description: row.description,
+  category: row.category,
+  jurisdiction: row.jurisdiction,
+  language: row.language,
+  fields: Array.isArray(row.fields) ? (row.fields as unknown as TemplateField[]) : [],
+  body: row.body,
+});
+
+const PLACEHOLDER = /\{\{\s*(\w+)\s*\}\}/g;
+
+// Fills the {{name}} placeholders with the user's values. Blank fields show as
+// [Label] so the draft still reads sensibly and the gaps are easy to spot.
+export const renderTemplate = (template: Pick<LegalTemplate, 'body' | 'fields'>, values: TemplateValues) =>
+  template.body.replace(PLACEHOLDER, (_match, name: string) => {
+    const value = values[name]?.trim();
+    const field = template.fields.find((candidate) => candidate.name === name);
+    if (value) return field?.type === 'date' ? formatDocumentDate(value) : value;
+    return `[${field?.label ?? name}]`;
+  });
+
+// <input type="date"> values are YYYY-MM-DD; Indian documents use DD/MM/YYYY.
+export const formatDocumentDate = (value: string) => {
+  const match = /^(\d{4})-(\d{2})-(\d{2})$/.exec(value);
+  return match ? `${match[3]}/${match[2]}/${match[1]}` : value;
+};
+
+export const formatRupees = (amount: number) => `Rs. ${amount.toLocaleString('en-IN')}`;
+
+export const todayInputValue = () => {
+  const now = new Date();
+  return new Date(now.getTime() - now.getTimezoneOffset() * 60000).toISOString().substring(0, 10);
+};
+
+// Field values from a chat suggestion come from a model, so the guided forms only take
+// dates and amounts that already match their inputs and drop anything else.
+export const prefillDate = (value?: string) => (value && /^\d{4}-\d{2}-\d{2}$/.test(value.trim()) ? value.trim() : '');
+
+export const prefillAmount = (value?: string) => {
+  const digits = value?.replace(/[,\s]/g, '') ?? '';
+  return /^\d+$/.test(digits) ? digits : '';
+};
+
+// Splits a "Name\nAddress" value into its first line and the rest.
+export const splitFirstLine = (value = '') => {
+  const [first = '', ...rest] = value.trim().split('\n');
+  return [first.trim(), rest.join('\n').trim()] as const;
+};
+
+// Drops blank entries so a partial prefill doesn't overwrite a form's defaults.
+export const withoutEmpty = <T extends object>(values: T): Partial<T> =>
+  Object.fromEntries(Object.entries(values).filter(([, value]) => value !== '' && value !== undefined)) as Partial<T>;
@@ -1,12 +1,17 @@
 import { useEffect, useState } from "react";
-import { useNavigate } from "react-router-dom";
+import { useNavigate, useParams, useSearchParams } from "react-router-dom";
 import { supabase } from "@/integrations/supabase/client";
 import { User } from "@supabase/supabase-js";
 import Navigation from "@/components/Navigation";
 import ChatInterface from "@/components/ChatInterface";
+import ConversationSidebar from "@/components/ConversationSidebar";
+import { SidebarInset, SidebarProvider, SidebarTrigger } from "@/components/ui/sidebar";
 
 const Chat = () => {
   const [user, setUser] = useState<User | null>(null);
+  const { conversationId } = useParams<{ conversationId: string }>();
+  const [searchParams] = useSearchParams();
+  const [titleUpdate, setTitleUpdate] = useState<{ id: string; title: string } | null>(null);
   const navigate = useNavigate();
 
   useEffect(() => {
@@ -38,11 +43,22 @@ const Chat = () => {
   return (
     <div className="h-screen flex flex-col bg-gradient-subtle">
       <Navigation user={user} />
-      <div className="flex-1 container mx-auto px-4 py-6">
-        <div className="h-full bg-card rounded-lg shadow-lg overflow-hidden">
-          <ChatInterface />
-        </div>
-      </div>
+      <SidebarProvider className="flex-1 min-h-0 overflow-hidden">
+        <ConversationSidebar activeConversationId={conversationId} titleUpdate={titleUpdate} />
+        <SidebarInset className="min-h-0 bg-transparent">
+          <div className="flex-1 min-h-0 container mx-auto px-4 py-6 flex flex-col gap-2">
+            <SidebarTrigger className="self-start" />
+            <div className="flex-1 min-h-0 bg-card rounded-lg shadow-lg overflow-hidden">
+              <ChatInterface
+                conversationId={conversationId}
+                highlightMessageId={searchParams.get('message') ?? undefined}
+                onConversationCreated={(id) => navigate(`/chat/${id}`, { replace: true })}
+                onTitleGenerated={(id, title) => setTitleUpdate({ id, title })}
+              />
+            </div>
+          </div>
+        </SidebarInset>
+      </SidebarProvider>
     </div>
   );
 };
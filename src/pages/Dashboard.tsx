@@ -156,15 +156,16 @@ const Dashboard = () => {
               ) : (
                 <div className="space-y-3">
                   {conversations.map((conv) => (
-                    <div
+                    <Link
                       key={conv.id}
-                      className="p-3 rounded-lg border hover:bg-accent transition-colors cursor-pointer"
+                      to={`/chat/${conv.id}`}
+                      className="block p-3 rounded-lg border hover:bg-accent transition-colors"
                     >
                       <h4 className="font-medium text-sm mb-1">{conv.title}</h4>
                       <p className="text-xs text-muted-foreground">
                         {new Date(conv.created_at).toLocaleDateString()}
                       </p>
-                    </div>
+                    </Link>
                   ))}
                 </div>
               )}
@@ -173,8 +174,15 @@ const Dashboard = () => {
 
           <Card>
             <CardHeader>
-              <CardTitle>Saved Items</CardTitle>
-              <CardDescription>Your bookmarked content</CardDescription>
+              <div className="flex items-center justify-between">
+                <div>
+                  <CardTitle>Saved Items</CardTitle>
+                  <CardDescription>Your bookmarked content</CardDescription>
+                </div>
+                <Link to="/saved">
+                  <Button size="sm" variant="outline">View all</Button>
+                </Link>
+              </div>
             </CardHeader>
             <CardContent>
               {loading ? (
@@ -184,15 +192,16 @@ const Dashboard = () => {
               ) : (
                 <div className="space-y-3">
                   {savedItems.map((item) => (
-                    <div
+                    <Link
                       key={item.id}
-                      className="p-3 rounded-lg border hover:bg-accent transition-colors cursor-pointer"
+                      to="/saved"
+                      className="block p-3 rounded-lg border hover:bg-accent transition-colors"
                     >
                       <h4 className="font-medium text-sm mb-1">{item.title}</h4>
                       <p className="text-xs text-muted-foreground">
                         {new Date(item.created_at).toLocaleDateString()}
                       </p>
-                    </div>
+                    </Link>
                   ))}
                 </div>
               )}
@@ -0,0 +1,294 @@
+import { useEffect, useState } from "react";
+import { Link, useLocation, useParams } from "react-router-dom";
+import { supabase } from "@/integrations/supabase/client";
+import { User } from "@supabase/supabase-js";
+import Navigation from "@/components/Navigation";
+import SaveBookmarkDialog from "@/components/SaveBookmarkDialog";
+import DraftActions from "@/components/forms/DraftActions";
+import { GUIDED_FORMS } from "@/components/forms/guided";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Alert, AlertDescription } from "@/components/ui/alert";
+import { ArrowLeft, Bookmark, Loader2, MessageSquareText, SearchX } from "lucide-react";
+import { toast } from "sonner";
+import { LegalTemplate, TemplateField, TemplateValues, renderTemplate, toLegalTemplate } from "@/lib/templates";
+import { DISCLAIMER } from "@/lib/export/brief";
+
+interface FormDetailState {
+  // Field values suggested by the chat's "Fill this form" button
+  prefill?: TemplateValues;
+}
+
+const FormDetail = () => {
+  const { slug } = useParams<{ slug: string }>();
+  const prefill = (useLocation().state as FormDetailState | null)?.prefill;
+  const [user, setUser] = useState<User | null>(null);
+  const [template, setTemplate] = useState<LegalTemplate | null>(null);
+  const [status, setStatus] = useState<'loading' | 'ready' | 'not-found'>('loading');
+  const [values, setValues] = useState<TemplateValues>({});
+  // saved_items id when this form is bookmarked
+  const [savedId, setSavedId] = useState<string | null>(null);
+  const [bookmarkOpen, setBookmarkOpen] = useState(false);
+
+  useEffect(() => {
+    supabase.auth.getSession().then(({ data: { session } }) => {
+      setUser(session?.user ?? null);
+    });
+
+    const {
+      data: { subscription },
+    } = supabase.auth.onAuthStateChange((_event, session) => {
+      setUser(session?.user ?? null);
+    });
+
+    return () => subscription.unsubscribe();
+  }, []);
+
+  useEffect(() => {
+    if (!slug) return;
+
+    // Ignore a template that arrives after the user has moved on to another form.
+    let cancelled = false;
+    const loadTemplate = async () => {
+      setStatus('loading');
+      const { data, error } = await supabase
+        .from('legal_templates')
+        .select('*')
+        .eq('slug', slug)
+        .maybeSingle();
+      if (cancelled) return;
+
+      if (error) {
+        console.error('Error loading template:', error);
+        toast.error('Failed to load form');
+      }
+      if (!data) {
+        setStatus('not-found');
+        return;
+      }
+
+      setTemplate(toLegalTemplate(data));
+      setStatus('ready');
+    };
+
+    loadTemplate();
+    return () => {
+      cancelled = true;
+    };
+  }, [slug]);
+
+  // Forms opened from the chat's "Fill this form" start from the values it suggested.
+  useEffect(() => {
+    if (!template) return;
+    setValues(prefill
+      ? Object.fromEntries(template.fields.filter(field => prefill[field.name]).map(field => [field.name, prefill[field.name]]))
+      : {});
+  }, [template, prefill]);
+
+  useEffect(() => {
+    if (user && template) loadBookmark(template.id);
+    else setSavedId(null);
+  }, [user, template]);
+
+  const loadBookmark = async (templateId: string) => {
+    const { data, error } = await supabase
+      .from('saved_items')
+      .select('id')
+      .eq('item_type', 'form')
+      .eq('item_id', templateId)
+      .maybeSingle();
+
+    if (error) {
+      console.error('Error loading bookmark:', error);
+      return;
+    }
+    setSavedId(data?.id ?? null);
+  };
+
+  const handleBookmark = async () => {
+    if (!user) {
+      toast.error('Please sign in to save forms');
+      return;
+    }
+    if (!savedId) {
+      setBookmarkOpen(true);
+      return;
+    }
+
+    const { error } = await supabase
+      .from('saved_items')
+      .delete()
+      .eq('id', savedId);
+
+    if (error) {
+      console.error('Error removing bookmark:', error);
+      toast.error('Failed to remove bookmark');
+      return;
+    }
+
+    setSavedId(null);
+    toast.success('Bookmark removed');
+  };
+
+  const saveBookmark = async (title: string) => {
+    if (!user || !template) return false;
+
+    const { data, error } = await supabase
+      .from('saved_items')
+      .insert({
+        user_id: user.id,
+        item_type: 'form',
+        item_id: template.id,
+        title,
+        content: template.description,
+      })
+      .select('id')
+      .single();
+
+    if (error) {
+      console.error('Error saving bookmark:', error);
+      toast.error('Failed to save bookmark');
+      return false;
+    }
+
+    setSavedId(data.id);
+    toast.success('Saved to your bookmarks');
+    return true;
+  };
+
+  const draft = template ? renderTemplate(template, values) : '';
+  const GuidedForm = template ? GUIDED_FORMS[template.slug] : undefined;
+
+  const setValue = (name: string, value: string) => setValues(prev => ({ ...prev, [name]: value }));
+
+  const renderField = (field: TemplateField) => {
+    const id = `field-${field.name}`;
+    const common = {
+      id,
+      value: values[field.name] ?? '',
+      placeholder: field.placeholder,
+      required: field.required,
+    };
+
+    return (
+      <div key={field.name} className="space-y-1.5">
+        <Label htmlFor={id}>
+          {field.label}
+          {field.required && <span className="text-destructive"> *</span>}
+        </Label>
+        {field.type === 'textarea' ? (
+          <Textarea {...common} rows={4} onChange={(e) => setValue(field.name, e.target.value)} />
+        ) : (
+          <Input {...common} type={field.type} onChange={(e) => setValue(field.name, e.target.value)} />
+        )}
+        {field.help && <p className="text-xs text-muted-foreground">{field.help}</p>}
+      </div>
+    );
+  };
+
+  return (
+    <div className="min-h-screen bg-gradient-subtle">
+      <Navigation user={user} />
+
+      <div className="container mx-auto px-4 py-8">
+        <Button asChild variant="ghost" size="sm" className="gap-2 mb-4 -ml-2">
+          <Link to="/forms">
+            <ArrowLeft className="h-4 w-4" />
+            All forms
+          </Link>
+        </Button>
+
+        {status === 'loading' && (
+          <div className="flex justify-center py-24">
+            <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+          </div>
+        )}
+
+        {status === 'not-found' && (
+          <div className="flex flex-col items-center gap-3 py-24 text-center">
+            <SearchX className="h-10 w-10 text-muted-foreground" />
+            <p className="text-lg font-medium">Form not found</p>
+            <p className="text-sm text-muted-foreground">It may have been renamed or removed.</p>
+          </div>
+        )}
+
+        {status === 'ready' && template && (
+          <>
+            <div className="mb-6 flex flex-wrap items-start justify-between gap-4">
+              <div>
+                <div className="flex items-center gap-2 mb-2">
+                  <Badge variant="secondary">{template.category}</Badge>
+                  <span className="text-xs text-muted-foreground">{template.jurisdiction}</span>
+                </div>
+                <h1 className="text-3xl font-bold mb-2">{template.title}</h1>
+                <p className="text-muted-foreground max-w-2xl">{template.description}</p>
+              </div>
+              <Button
+                variant="outline"
+                className="gap-2"
+                onClick={handleBookmark}
+                aria-pressed={!!savedId}
+              >
+                <Bookmark className={`h-4 w-4 ${savedId ? 'fill-current text-primary' : ''}`} />
+                {savedId ? 'Saved' : 'Save form'}
+              </Button>
+            </div>
+
+            {prefill && (
+              <Alert className="mb-6 max-w-3xl">
+                <MessageSquareText className="h-4 w-4" />
+                <AlertDescription>
+                  Some details were filled in from your chat. Check each one against your documents before you use this draft.
+                </AlertDescription>
+              </Alert>
+            )}
+
+            {GuidedForm ? (
+              <div className="max-w-3xl">
+                <GuidedForm template={template} prefill={prefill} />
+              </div>
+            ) : (
+              <div className="grid gap-6 lg:grid-cols-2">
+                <Card>
+                  <CardHeader>
+                    <CardTitle className="text-lg">Your details</CardTitle>
+                    <CardDescription>Everything stays in your browser until you copy, print or download it.</CardDescription>
+                  </CardHeader>
+                  <CardContent className="space-y-4">
+                    {template.fields.map(renderField)}
+                  </CardContent>
+                </Card>
+
+                <Card className="lg:sticky lg:top-24 lg:self-start">
+                  <CardHeader className="flex flex-row flex-wrap items-center justify-between gap-2 space-y-0">
+                    <CardTitle className="text-lg">Draft</CardTitle>
+                    <DraftActions title={template.title} fileName={template.slug} documents={[draft]} />
+                  </CardHeader>
+                  <CardContent>
+                    <pre className="whitespace-pre-wrap font-serif text-sm leading-relaxed max-h-[70vh] overflow-y-auto">
+                      {draft}
+                    </pre>
+                    <p className="mt-4 text-xs text-muted-foreground">{DISCLAIMER}</p>
+                  </CardContent>
+                </Card>
+              </div>
+            )}
+          </>
+        )}
+      </div>
+
+      <SaveBookmarkDialog
+        open={bookmarkOpen}
+        defaultTitle={template?.title ?? ''}
+        onOpenChange={setBookmarkOpen}
+        onSave={saveBookmark}
+      />
+    </div>
+  );
+};
+
+export default FormDetail;
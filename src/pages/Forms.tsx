@@ -0,0 +1,118 @@
+import { useEffect, useState } from "react";
+import { Link } from "react-router-dom";
+import { supabase } from "@/integrations/supabase/client";
+import { User } from "@supabase/supabase-js";
+import Navigation from "@/components/Navigation";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Tabs, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { FileText } from "lucide-react";
+import { toast } from "sonner";
+
+interface TemplateSummary {
+  id: string;
+  slug: string;
+  title: string;
+  description: string;
+  category: string;
+  jurisdiction: string;
+}
+
+const ALL = 'all';
+
+// Public library of legal forms. Anyone can browse and fill them; saving needs an account.
+const Forms = () => {
+  const [user, setUser] = useState<User | null>(null);
+  const [templates, setTemplates] = useState<TemplateSummary[]>([]);
+  const [category, setCategory] = useState<string>(ALL);
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    supabase.auth.getSession().then(({ data: { session } }) => {
+      setUser(session?.user ?? null);
+    });
+
+    const {
+      data: { subscription },
+    } = supabase.auth.onAuthStateChange((_event, session) => {
+      setUser(session?.user ?? null);
+    });
+
+    loadTemplates();
+
+    return () => subscription.unsubscribe();
+  }, []);
+
+  const loadTemplates = async () => {
+    const { data, error } = await supabase
+      .from('legal_templates')
+      .select('id, slug, title, description, category, jurisdiction')
+      .order('category')
+      .order('title');
+
+    if (error) {
+      console.error('Error loading templates:', error);
+      toast.error('Failed to load forms');
+    } else {
+      setTemplates(data);
+    }
+    setLoading(false);
+  };
+
+  const categories = [...new Set(templates.map(template => template.category))];
+  const visibleTemplates = category === ALL ? templates : templates.filter(template => template.category === category);
+
+  return (
+    <div className="min-h-screen bg-gradient-subtle">
+      <Navigation user={user} />
+
+      <div className="container mx-auto px-4 py-8">
+        <div className="mb-8">
+          <h1 className="text-3xl font-bold mb-2">Legal Forms & Templates</h1>
+          <p className="text-muted-foreground">Fill in a template to get a ready-to-print draft for common legal needs</p>
+        </div>
+
+        {categories.length > 1 && (
+          <Tabs value={category} onValueChange={setCategory} className="mb-6">
+            <TabsList className="h-auto flex-wrap">
+              <TabsTrigger value={ALL}>All</TabsTrigger>
+              {categories.map(name => (
+                <TabsTrigger key={name} value={name}>{name}</TabsTrigger>
+              ))}
+            </TabsList>
+          </Tabs>
+        )}
+
+        {loading ? (
+          <p className="text-sm text-muted-foreground">Loading...</p>
+        ) : visibleTemplates.length === 0 ? (
+          <Card>
+            <CardContent className="py-12 text-center text-muted-foreground">
+              <FileText className="h-8 w-8 mx-auto mb-3" />
+              <p>No forms available yet.</p>
+            </CardContent>
+          </Card>
+        ) : (
+          <div className="grid gap-4 md:grid-cols-2 lg:grid-cols-3">
+            {visibleTemplates.map(template => (
+              <Link key={template.id} to={`/forms/${template.slug}`} className="group">
+                <Card className="h-full group-hover:shadow-lg transition-shadow">
+                  <CardHeader>
+                    <div className="flex items-start justify-between gap-2">
+                      <CardTitle className="text-base">{template.title}</CardTitle>
+                      <Badge variant="secondary" className="shrink-0">{template.category}</Badge>
+                    </div>
+                    <CardDescription>{template.description}</CardDescription>
+                  </CardHeader>
+                  <CardContent className="text-xs text-muted-foreground">{template.jurisdiction}</CardContent>
+                </Card>
+              </Link>
+            ))}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default Forms;
@@ -81,17 +81,19 @@ const Index = () => {
             </CardHeader>
           </Card>
 
-          <Card className="hover:shadow-lg transition-shadow">
-            <CardHeader>
-              <div className="bg-secondary/10 w-12 h-12 rounded-lg flex items-center justify-center mb-4">
-                <FileText className="h-6 w-6 text-secondary" />
-              </div>
-              <CardTitle>Legal Forms & Templates</CardTitle>
-              <CardDescription>
-                Access free legal forms and document templates for common needs
-              </CardDescription>
-            </CardHeader>
-          </Card>
+          <Link to="/forms">
+            <Card className="h-full hover:shadow-lg transition-shadow">
+              <CardHeader>
+                <div className="bg-secondary/10 w-12 h-12 rounded-lg flex items-center justify-center mb-4">
+                  <FileText className="h-6 w-6 text-secondary" />
+                </div>
+                <CardTitle>Legal Forms & Templates</CardTitle>
+                <CardDescription>
+                  Access free legal forms and document templates for common needs
+                </CardDescription>
+              </CardHeader>
+            </Card>
+          </Link>
 
           <Card className="hover:shadow-lg transition-shadow">
             <CardHeader>
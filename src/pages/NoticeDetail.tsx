@@ -0,0 +1,290 @@
+import { useEffect, useState } from "react";
+import { Link, useNavigate, useParams } from "react-router-dom";
+import { supabase } from "@/integrations/supabase/client";
+import type { Json } from "@/integrations/supabase/types";
+import { User } from "@supabase/supabase-js";
+import Navigation from "@/components/Navigation";
+import DraftActions from "@/components/forms/DraftActions";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { ArrowLeft, CalendarClock, Loader2, SearchX } from "lucide-react";
+import { toast } from "sonner";
+import { formatDocumentDate, todayInputValue } from "@/lib/templates";
+import {
+  DISPATCH_MODES,
+  DispatchMode,
+  NoticeDispatch,
+  NoticeRecord,
+  buildNotice,
+  computeDeadlines,
+  getDispatchModeLabel,
+  getNoticeScenario,
+} from "@/lib/forms/notice";
+import { DISCLAIMER } from "@/lib/export/brief";
+
+interface SavedNotice {
+  id: string;
+  title: string;
+  record: NoticeRecord;
+}
+
+const emptyDispatch = (): NoticeDispatch => ({
+  dispatchedOn: todayInputValue(),
+  mode: 'registered_post',
+  trackingNumber: '',
+  deliveredOn: null,
+});
+
+// A saved legal notice with its dispatch tracker. The response deadline runs from the
+// date the recipient received the notice, so it is only an estimate until delivery is recorded.
+const NoticeDetail = () => {
+  const { noticeId } = useParams<{ noticeId: string }>();
+  const [user, setUser] = useState<User | null>(null);
+  const [notice, setNotice] = useState<SavedNotice | null>(null);
+  const [status, setStatus] = useState<'loading' | 'ready' | 'not-found'>('loading');
+  const [dispatch, setDispatch] = useState<NoticeDispatch>(emptyDispatch);
+  const [saving, setSaving] = useState(false);
+  const navigate = useNavigate();
+
+  useEffect(() => {
+    supabase.auth.getSession().then(({ data: { session } }) => {
+      if (!session) {
+        navigate("/auth");
+      } else {
+        setUser(session.user);
+      }
+    });
+
+    const {
+      data: { subscription },
+    } = supabase.auth.onAuthStateChange((_event, session) => {
+      if (!session) {
+        navigate("/auth");
+      } else {
+        setUser(session.user);
+      }
+    });
+
+    return () => subscription.unsubscribe();
+  }, [navigate]);
+
+  useEffect(() => {
+    if (user && noticeId) loadNotice(noticeId);
+  }, [user, noticeId]);
+
+  const loadNotice = async (id: string) => {
+    const { data, error } = await supabase
+      .from('saved_items')
+      .select('id, title, data')
+      .eq('id', id)
+      .eq('item_type', 'notice')
+      .maybeSingle();
+
+    if (error) {
+      console.error('Error loading notice:', error);
+      toast.error('Failed to load notice');
+    }
+    if (!data?.data) {
+      setStatus('not-found');
+      return;
+    }
+
+    const record = data.data as unknown as NoticeRecord;
+    setNotice({ id: data.id, title: data.title, record });
+    setDispatch(record.dispatch ?? emptyDispatch());
+    setStatus('ready');
+  };
+
+  const handleSaveDispatch = async () => {
+    if (!notice) return;
+    if (!dispatch.dispatchedOn) {
+      toast.error('Enter the date you sent the notice');
+      return;
+    }
+    if (dispatch.deliveredOn && dispatch.deliveredOn < dispatch.dispatchedOn) {
+      toast.error('The delivery date is before the dispatch date');
+      return;
+    }
+
+    setSaving(true);
+    const record: NoticeRecord = { ...notice.record, dispatch };
+    const { error } = await supabase
+      .from('saved_items')
+      .update({ data: record as unknown as Json })
+      .eq('id', notice.id);
+
+    setSaving(false);
+    if (error) {
+      console.error('Error saving dispatch:', error);
+      toast.error('Failed to save dispatch details');
+      return;
+    }
+
+    setNotice({ ...notice, record });
+    toast.success('Dispatch details saved');
+  };
+
+  if (!user) {
+    return null;
+  }
+
+  const deadlines = notice ? computeDeadlines(notice.record) : null;
+  const overdue = deadlines && deadlines.responseDue < todayInputValue();
+
+  return (
+    <div className="min-h-screen bg-gradient-subtle">
+      <Navigation user={user} />
+
+      <div className="container mx-auto px-4 py-8">
+        <Button asChild variant="ghost" size="sm" className="gap-2 mb-4 -ml-2">
+          <Link to="/saved">
+            <ArrowLeft className="h-4 w-4" />
+            Saved items
+          </Link>
+        </Button>
+
+        {status === 'loading' && (
+          <div className="flex justify-center py-24">
+            <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+          </div>
+        )}
+
+        {status === 'not-found' && (
+          <div className="flex flex-col items-center gap-3 py-24 text-center">
+            <SearchX className="h-10 w-10 text-muted-foreground" />
+            <p className="text-lg font-medium">Notice not found</p>
+            <p className="text-sm text-muted-foreground">It may have been deleted from your saved items.</p>
+          </div>
+        )}
+
+        {status === 'ready' && notice && (
+          <>
+            <div className="mb-6">
+              <Badge variant="secondary" className="mb-2">{getNoticeScenario(notice.record.values.scenario).label}</Badge>
+              <h1 className="text-3xl font-bold">{notice.title}</h1>
+            </div>
+
+            <div className="grid gap-6 lg:grid-cols-[1fr_380px]">
+              <Card>
+                <CardHeader className="flex flex-row flex-wrap items-center justify-between gap-2 space-y-0">
+                  <CardTitle className="text-lg">Notice</CardTitle>
+                  <DraftActions
+                    title={notice.title}
+                    fileName="legal-notice"
+                    documents={[buildNotice(notice.record.values)]}
+                  />
+                </CardHeader>
+                <CardContent>
+                  <pre className="whitespace-pre-wrap font-serif text-sm leading-relaxed">
+                    {buildNotice(notice.record.values)}
+                  </pre>
+                  <p className="mt-4 text-xs text-muted-foreground">{DISCLAIMER}</p>
+                </CardContent>
+              </Card>
+
+              <div className="space-y-6 lg:sticky lg:top-24 lg:self-start">
+                <Card>
+                  <CardHeader>
+                    <CardTitle className="text-lg">Dispatch</CardTitle>
+                    <CardDescription>Record how and when you sent the notice, and when it was delivered.</CardDescription>
+                  </CardHeader>
+                  <CardContent className="space-y-4">
+                    <div className="grid gap-4 sm:grid-cols-2 lg:grid-cols-1">
+                      <div className="space-y-1.5">
+                        <Label htmlFor="dispatched-on">Sent on</Label>
+                        <Input
+                          id="dispatched-on"
+                          type="date"
+                          value={dispatch.dispatchedOn}
+                          onChange={(e) => setDispatch(prev => ({ ...prev, dispatchedOn: e.target.value }))}
+                        />
+                      </div>
+                      <div className="space-y-1.5">
+                        <Label htmlFor="dispatch-mode">Sent by</Label>
+                        <Select
+                          value={dispatch.mode}
+                          onValueChange={(mode) => setDispatch(prev => ({ ...prev, mode: mode as DispatchMode }))}
+                        >
+                          <SelectTrigger id="dispatch-mode"><SelectValue /></SelectTrigger>
+                          <SelectContent>
+                            {DISPATCH_MODES.map(mode => (
+                              <SelectItem key={mode.value} value={mode.value}>{mode.label}</SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                      </div>
+                    </div>
+                    <div className="space-y-1.5">
+                      <Label htmlFor="tracking-number">Tracking / consignment number</Label>
+                      <Input
+                        id="tracking-number"
+                        value={dispatch.trackingNumber}
+                        onChange={(e) => setDispatch(prev => ({ ...prev, trackingNumber: e.target.value }))}
+                      />
+                    </div>
+                    <div className="space-y-1.5">
+                      <Label htmlFor="delivered-on">Delivered on</Label>
+                      <Input
+                        id="delivered-on"
+                        type="date"
+                        value={dispatch.deliveredOn ?? ''}
+                        onChange={(e) => setDispatch(prev => ({ ...prev, deliveredOn: e.target.value || null }))}
+                      />
+                      <p className="text-xs text-muted-foreground">From the postal tracking or the returned A.D. card.</p>
+                    </div>
+                    <Button onClick={handleSaveDispatch} disabled={saving} className="w-full gap-2">
+                      {saving && <Loader2 className="h-4 w-4 animate-spin" />}
+                      Save dispatch details
+                    </Button>
+                  </CardContent>
+                </Card>
+
+                {deadlines && notice.record.dispatch && (
+                  <Card>
+                    <CardHeader className="pb-2">
+                      <CardTitle className="flex items-center gap-2 text-lg">
+                        <CalendarClock className="h-5 w-5" />
+                        Deadlines
+                      </CardTitle>
+                    </CardHeader>
+                    <CardContent className="space-y-3 text-sm">
+                      <p>
+                        Sent by {getDispatchModeLabel(notice.record.dispatch.mode)} on{' '}
+                        {formatDocumentDate(notice.record.dispatch.dispatchedOn)}
+                        {notice.record.dispatch.trackingNumber && ` (${notice.record.dispatch.trackingNumber})`}.
+                      </p>
+                      <div>
+                        <p className="font-medium">
+                          Reply or payment due by {formatDocumentDate(deadlines.responseDue)}
+                          {overdue && <Badge variant="destructive" className="ml-2">Passed</Badge>}
+                        </p>
+                        {deadlines.estimated && (
+                          <p className="text-xs text-muted-foreground">
+                            Counted from the dispatch date for now. Add the delivery date for the exact deadline.
+                          </p>
+                        )}
+                      </div>
+                      {deadlines.complaintWindow && (
+                        <p>
+                          If the cheque amount isn't paid, file your complaint under Section 138 between{' '}
+                          {formatDocumentDate(deadlines.complaintWindow.from)} and{' '}
+                          {formatDocumentDate(deadlines.complaintWindow.to)} (Section 142(1)(b)).
+                        </p>
+                      )}
+                    </CardContent>
+                  </Card>
+                )}
+              </div>
+            </div>
+          </>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default NoticeDetail;
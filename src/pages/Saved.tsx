@@ -0,0 +1,218 @@
+import { useEffect, useState } from "react";
+import { useNavigate, Link } from "react-router-dom";
+import { supabase } from "@/integrations/supabase/client";
+import { User } from "@supabase/supabase-js";
+import Navigation from "@/components/Navigation";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Tabs, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { Bookmark, ExternalLink, Trash2 } from "lucide-react";
+import { toast } from "sonner";
+import { getSavedItemTypeLabel, SAVED_ITEM_TYPES } from "@/lib/saved-items";
+
+interface SavedItem {
+  id: string;
+  item_type: string;
+  item_id: string | null;
+  title: string;
+  content: string | null;
+  created_at: string;
+}
+
+const ALL = 'all';
+
+const Saved = () => {
+  const [user, setUser] = useState<User | null>(null);
+  const [items, setItems] = useState<SavedItem[]>([]);
+  // Bookmarked chat message id -> its conversation, for "Open in chat" links
+  const [conversationIds, setConversationIds] = useState<Record<string, string>>({});
+  // Bookmarked template id -> its slug, for "Open form" links
+  const [templateSlugs, setTemplateSlugs] = useState<Record<string, string>>({});
+  const [filter, setFilter] = useState<string>(ALL);
+  const [loading, setLoading] = useState(true);
+  const navigate = useNavigate();
+
+  useEffect(() => {
+    supabase.auth.getSession().then(({ data: { session } }) => {
+      if (!session) {
+        navigate("/auth");
+      } else {
+        setUser(session.user);
+        loadItems(session.user.id);
+      }
+    });
+
+    const {
+      data: { subscription },
+    } = supabase.auth.onAuthStateChange((_event, session) => {
+      if (!session) {
+        navigate("/auth");
+      } else {
+        setUser(session.user);
+        loadItems(session.user.id);
+      }
+    });
+
+    return () => subscription.unsubscribe();
+  }, [navigate]);
+
+  const loadItems = async (userId: string) => {
+    try {
+      const { data, error } = await supabase
+        .from('saved_items')
+        .select('id, item_type, item_id, title, content, created_at')
+        .eq('user_id', userId)
+        .order('created_at', { ascending: false });
+
+      if (error) throw error;
+      setItems(data || []);
+
+      const messageIds = (data || [])
+        .filter(item => item.item_type === 'chat' && item.item_id)
+        .map(item => item.item_id as string);
+
+      if (messageIds.length > 0) {
+        const { data: messages, error: messagesError } = await supabase
+          .from('chat_messages')
+          .select('id, conversation_id')
+          .in('id', messageIds);
+
+        if (messagesError) throw messagesError;
+        setConversationIds(Object.fromEntries(messages.map(msg => [msg.id, msg.conversation_id])));
+      }
+
+      const templateIds = (data || [])
+        .filter(item => item.item_type === 'form' && item.item_id)
+        .map(item => item.item_id as string);
+
+      if (templateIds.length > 0) {
+        const { data: templates, error: templatesError } = await supabase
+          .from('legal_templates')
+          .select('id, slug')
+          .in('id', templateIds);
+
+        if (templatesError) throw templatesError;
+        setTemplateSlugs(Object.fromEntries(templates.map(template => [template.id, template.slug])));
+      }
+    } catch (error) {
+      console.error('Error loading saved items:', error);
+      toast.error('Failed to load saved items');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleDelete = async (id: string) => {
+    const { error } = await supabase
+      .from('saved_items')
+      .delete()
+      .eq('id', id);
+
+    if (error) {
+      console.error('Error deleting saved item:', error);
+      toast.error('Failed to delete saved item');
+      return;
+    }
+
+    setItems(prev => prev.filter(item => item.id !== id));
+    toast.success('Removed from saved items');
+  };
+
+  const linkFor = (item: SavedItem) => {
+    const conversationId = item.item_id && conversationIds[item.item_id];
+    if (item.item_type === 'chat' && conversationId) {
+      return { to: `/chat/${conversationId}?message=${item.item_id}`, label: 'Open in chat' };
+    }
+    const templateSlug = item.item_id && templateSlugs[item.item_id];
+    if (item.item_type === 'form' && templateSlug) {
+      return { to: `/forms/${templateSlug}`, label: 'Open form' };
+    }
+    if (item.item_type === 'notice') {
+      return { to: `/notices/${item.id}`, label: 'Open notice' };
+    }
+    return null;
+  };
+
+  if (!user) {
+    return null;
+  }
+
+  const visibleItems = filter === ALL ? items : items.filter(item => item.item_type === filter);
+
+  return (
+    <div className="min-h-screen bg-gradient-subtle">
+      <Navigation user={user} />
+
+      <div className="container mx-auto px-4 py-8">
+        <div className="mb-8">
+          <h1 className="text-3xl font-bold mb-2">Saved Items</h1>
+          <p className="text-muted-foreground">Answers, forms, topics and notices you've saved</p>
+        </div>
+
+        <Tabs value={filter} onValueChange={setFilter} className="mb-6">
+          <TabsList>
+            <TabsTrigger value={ALL}>All</TabsTrigger>
+            {SAVED_ITEM_TYPES.map(type => (
+              <TabsTrigger key={type.value} value={type.value}>{type.label}</TabsTrigger>
+            ))}
+          </TabsList>
+        </Tabs>
+
+        {loading ? (
+          <p className="text-sm text-muted-foreground">Loading...</p>
+        ) : visibleItems.length === 0 ? (
+          <Card>
+            <CardContent className="py-12 text-center text-muted-foreground">
+              <Bookmark className="h-8 w-8 mx-auto mb-3" />
+              <p>No saved items here yet. Bookmark answers in the chat or forms from the library to keep them.</p>
+            </CardContent>
+          </Card>
+        ) : (
+          <div className="grid gap-4 md:grid-cols-2">
+            {visibleItems.map(item => {
+              const link = linkFor(item);
+              return (
+                <Card key={item.id} className="flex flex-col">
+                  <CardHeader className="pb-2">
+                    <div className="flex items-start justify-between gap-2">
+                      <CardTitle className="text-base">{item.title}</CardTitle>
+                      <Badge variant="secondary" className="shrink-0">{getSavedItemTypeLabel(item.item_type)}</Badge>
+                    </div>
+                    <CardDescription>{new Date(item.created_at).toLocaleDateString()}</CardDescription>
+                  </CardHeader>
+                  <CardContent className="flex flex-1 flex-col gap-4">
+                    {item.content && (
+                      <p className="text-sm text-muted-foreground line-clamp-4 whitespace-pre-wrap">{item.content}</p>
+                    )}
+                    <div className="mt-auto flex justify-end gap-2">
+                      {link && (
+                        <Button asChild variant="outline" size="sm" className="gap-2">
+                          <Link to={link.to}>
+                            <ExternalLink className="h-4 w-4" />
+                            {link.label}
+                          </Link>
+                        </Button>
+                      )}
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        className="gap-2 text-destructive hover:text-destructive"
+                        onClick={() => handleDelete(item.id)}
+                      >
+                        <Trash2 className="h-4 w-4" />
+                        Delete
+                      </Button>
+                    </div>
+                  </CardContent>
+                </Card>
+              );
+            })}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default Saved;
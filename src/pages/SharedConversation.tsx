@@ -0,0 +1,139 @@
+import { useEffect, useState } from "react";
+import { Link, useParams } from "react-router-dom";
+import { Loader2, Scale, SearchX } from "lucide-react";
+import { supabase } from "@/integrations/supabase/client";
+import { Card } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import MarkdownMessage from "@/components/MarkdownMessage";
+import CitationChips from "@/components/CitationChips";
+import StatuteSources from "@/components/StatuteSources";
+import { ChatNode } from "@/lib/chat-tree";
+import { DISCLAIMER } from "@/lib/export/brief";
+
+interface SharedConversationData {
+  title: string;
+  created_at: string;
+  messages: {
+    id: string;
+    parent_id: string | null;
+    role: 'user' | 'assistant';
+    content: string;
+    retrieved_sections: string[];
+    truncated: boolean;
+    created_at: string;
+  }[];
+}
+
+// Public, read-only transcript behind a share token. Works without signing in; the
+// get_shared_conversation RPC returns null for unknown, revoked or expired links.
+const SharedConversation = () => {
+  const { token } = useParams<{ token: string }>();
+  const [conversation, setConversation] = useState<{ title: string; createdAt: string; messages: ChatNode[] } | null>(null);
+  const [status, setStatus] = useState<'loading' | 'ready' | 'unavailable'>('loading');
+
+  useEffect(() => {
+    if (token) loadConversation(token);
+  }, [token]);
+
+  const loadConversation = async (shareToken: string) => {
+    const { data, error } = await supabase.rpc('get_shared_conversation', { p_token: shareToken });
+
+    if (error || !data) {
+      if (error) console.error('Error loading shared conversation:', error);
+      setStatus('unavailable');
+      return;
+    }
+
+    const shared = data as unknown as SharedConversationData;
+    const nodes: ChatNode[] = shared.messages.map(msg => ({
+      id: msg.id,
+      parentId: msg.parent_id,
+      role: msg.role,
+      content: msg.content,
+      createdAt: msg.created_at,
+      sources: msg.retrieved_sections,
+      truncated: msg.truncated,
+    }));
+
+    // The RPC returns only the latest variant of every turn, as the owner sees it by default.
+    setConversation({ title: shared.title, createdAt: shared.created_at, messages: nodes });
+    setStatus('ready');
+  };
+
+  return (
+    <div className="min-h-screen bg-gradient-subtle">
+      <header className="bg-card border-b shadow-sm">
+        <div className="container mx-auto px-4 h-16 flex items-center justify-between">
+          <Link to="/" className="flex items-center gap-2">
+            <div className="bg-gradient-hero p-2 rounded-lg">
+              <Scale className="h-6 w-6 text-white" />
+            </div>
+            <span className="font-bold text-xl">JUSTICE PATH</span>
+          </Link>
+          <Link to="/auth">
+            <Button variant="outline">Ask your own question</Button>
+          </Link>
+        </div>
+      </header>
+
+      <main className="container mx-auto max-w-3xl px-4 py-8">
+        {status === 'loading' && (
+          <div className="flex justify-center py-24">
+            <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+          </div>
+        )}
+
+        {status === 'unavailable' && (
+          <div className="flex flex-col items-center gap-3 py-24 text-center">
+            <SearchX className="h-10 w-10 text-muted-foreground" />
+            <p className="text-lg font-medium">This link isn't available</p>
+            <p className="text-sm text-muted-foreground">It may have expired or been revoked by the person who shared it.</p>
+          </div>
+        )}
+
+        {status === 'ready' && conversation && (
+          <>
+            <div className="mb-6">
+              <h1 className="text-2xl font-bold mb-1">{conversation.title}</h1>
+              <p className="text-sm text-muted-foreground">
+                Shared conversation · {new Date(conversation.createdAt).toLocaleDateString()}
+              </p>
+            </div>
+
+            <div className="space-y-4">
+              {conversation.messages.map(message => (
+                <Card
+                  key={message.id}
+                  className={`p-4 ${
+                    message.role === 'user'
+                      ? 'bg-primary text-primary-foreground ml-auto max-w-[80%]'
+                      : 'bg-card max-w-[80%]'
+                  }`}
+                >
+                  {message.role === 'user' ? (
+                    <p className="whitespace-pre-wrap">{message.content}</p>
+                  ) : (
+                    <>
+                      <MarkdownMessage content={message.content} />
+                      {message.truncated && (
+                        <p className="mt-2 text-xs italic text-muted-foreground">Response stopped before it finished.</p>
+                      )}
+                      <CitationChips content={message.content} />
+                      {message.sources && <StatuteSources sectionIds={message.sources} />}
+                    </>
+                  )}
+                </Card>
+              ))}
+            </div>
+
+            <p className="mt-8 text-center text-sm text-muted-foreground">
+              <strong>Disclaimer:</strong> {DISCLAIMER}
+            </p>
+          </>
+        )}
+      </main>
+    </div>
+  );
+};
+
+export default SharedConversation;
@@ -0,0 +1,9 @@
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+
+// Service-role client for writes the caller must not be able to make themselves.
+// Bypasses RLS, so only use it after `authenticate` has resolved the user.
+export const adminClient = createClient(
+  Deno.env.get("SUPABASE_URL")!,
+  Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!,
+  { auth: { persistSession: false } },
+);
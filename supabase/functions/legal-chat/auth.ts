@@ -0,0 +1,36 @@
+import { createClient, SupabaseClient, User } from "https://esm.sh/@supabase/supabase-js@2";
+
+export class AuthError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "AuthError";
+  }
+}
+
+export interface AuthContext {
+  user: User;
+  // Client scoped to the caller's JWT, so every query it makes is subject to RLS.
+  supabase: SupabaseClient;
+}
+
+// Verifies the caller's Supabase access token. The publishable (anon) key is a valid JWT too,
+// but it has no user behind it, so `getUser` rejects it and anonymous callers get a 401.
+export const authenticate = async (req: Request): Promise<AuthContext> => {
+  const authHeader = req.headers.get("Authorization");
+  const token = authHeader?.match(/^Bearer\s+(.+)$/i)?.[1];
+  if (!token) {
+    throw new AuthError("Missing access token");
+  }
+
+  const supabase = createClient(Deno.env.get("SUPABASE_URL")!, Deno.env.get("SUPABASE_ANON_KEY")!, {
+    global: { headers: { Authorization: authHeader! } },
+    auth: { persistSession: false },
+  });
+
+  const { data: { user }, error } = await supabase.auth.getUser(token);
+  if (error || !user) {
+    throw new AuthError("Invalid or expired access token");
+  }
+
+  return { user, supabase };
+};
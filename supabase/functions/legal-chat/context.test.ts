@@ -0,0 +1,118 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+
+// The edge function reads its configuration from Deno.env; run it with the defaults.
+vi.hoisted(() => {
+  vi.stubGlobal("Deno", { env: { get: () => undefined } });
+});
+vi.mock("./persistence.ts", () => ({ saveConversationSummary: vi.fn() }));
+
+import { buildContextWindow, updateConversationSummary } from "./context.ts";
+import { saveConversationSummary } from "./persistence.ts";
+import { ModelProvider } from "./providers/index.ts";
+import { RequestMessage } from "./request.ts";
+import { estimateTokens } from "./tokens.ts";
+
+const turn = (id: string | null, role: RequestMessage["role"], content = id ?? "unsaved"): RequestMessage => ({ id, role, content });
+
+// Takes 2500 of the default 6000-token history budget, so only two fit.
+const long = (id: string, role: RequestMessage["role"]) => turn(id, role, "x".repeat(10000));
+
+const roles = (messages: { role: string }[]) => messages.map((message) => message.role);
+
+describe("estimateTokens", () => {
+  it("counts about four characters of English per token", () => {
+    expect(estimateTokens("")).toBe(0);
+    expect(estimateTokens("Can my landlord keep the deposit?")).toBe(9);
+  });
+
+  it("counts each character of an Indic script as a token", () => {
+    expect(estimateTokens("किराया")).toBe(6);
+    expect(estimateTokens("Section 138 के तहत")).toBe(Math.ceil(12 / 4) + 6);
+  });
+});
+
+describe("buildContextWindow", () => {
+  it("sends a short conversation whole", () => {
+    const messages = [turn("1", "user"), turn("2", "assistant"), turn("3", "user")];
+    expect(buildContextWindow(messages, null)).toEqual({
+      messages: messages.map(({ role, content }) => ({ role, content })),
+      summary: null,
+      unsummarized: [],
+    });
+  });
+
+  it("keeps the latest turns that fit the budget and reports the rest as unsummarized", () => {
+    const messages = [long("1", "user"), long("2", "assistant"), long("3", "user"), long("4", "assistant"), long("5", "user")];
+    const context = buildContextWindow(messages, null);
+    expect(context.messages).toHaveLength(1);
+    expect(context.summary).toBeNull();
+    expect(context.unsummarized.map((message) => message.id)).toEqual(["1", "2", "3", "4"]);
+  });
+
+  it("starts the window on a user message", () => {
+    // The budget would fit the short answer "2" as well, but a window can't open with it.
+    const messages = [long("1", "user"), turn("2", "assistant"), long("3", "user"), long("4", "assistant"), turn("5", "user")];
+    const context = buildContextWindow(messages, null);
+    expect(context.messages.map((message) => message.content)).toEqual([messages[2].content, messages[3].content, "5"]);
+    expect(roles(context.messages)).toEqual(["user", "assistant", "user"]);
+    expect(context.unsummarized.map((message) => message.id)).toEqual(["1", "2"]);
+  });
+
+  it("always keeps the new question, however long", () => {
+    const messages = [turn("1", "user"), turn("2", "assistant"), turn("3", "user", "x".repeat(40000))];
+    const context = buildContextWindow(messages, null);
+    expect(roles(context.messages)).toEqual(["user"]);
+    expect(context.unsummarized).toHaveLength(2);
+  });
+
+  it("replaces the turns a stored summary covers", () => {
+    const messages = [turn("1", "user"), turn("2", "assistant"), turn("3", "user"), turn("4", "assistant"), turn("5", "user")];
+    const context = buildContextWindow(messages, { text: "Earlier turns", throughMessageId: "2" });
+    expect(context.summary).toBe("Earlier turns");
+    expect(context.messages.map((message) => message.content)).toEqual(["3", "4", "5"]);
+    expect(context.unsummarized).toEqual([]);
+  });
+
+  it("ignores a summary from another branch", () => {
+    const messages = [turn("1", "user"), turn("2", "assistant"), turn("3", "user")];
+    const context = buildContextWindow(messages, { text: "Other branch", throughMessageId: "elsewhere" });
+    expect(context.summary).toBeNull();
+    expect(context.messages).toHaveLength(3);
+  });
+});
+
+describe("updateConversationSummary", () => {
+  const provider = { complete: vi.fn(async () => "- Updated summary") } as unknown as ModelProvider;
+
+  beforeEach(() => {
+    vi.mocked(provider.complete).mockClear();
+    vi.mocked(saveConversationSummary).mockClear();
+  });
+
+  it("folds the turns into the summary, anchored at the last one", async () => {
+    await updateConversationSummary({
+      provider,
+      conversationId: "c1",
+      previous: "- Earlier",
+      turns: [turn("1", "user"), turn("2", "assistant")],
+    });
+    expect(provider.complete).toHaveBeenCalledOnce();
+    expect(saveConversationSummary).toHaveBeenCalledWith("c1", { summary: "- Updated summary", throughMessageId: "2" });
+  });
+
+  it("skips the summary when a turn was never saved", async () => {
+    await updateConversationSummary({
+      provider,
+      conversationId: "c1",
+      previous: null,
+      turns: [turn("1", "user"), turn(null, "assistant"), turn("3", "user")],
+    });
+    expect(provider.complete).not.toHaveBeenCalled();
+    expect(saveConversationSummary).not.toHaveBeenCalled();
+  });
+
+  it("does nothing without turns", async () => {
+    await updateConversationSummary({ provider, conversationId: "c1", previous: null, turns: [] });
+    expect(provider.complete).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,89 @@
+import { ChatMessage, ModelProvider } from "./providers/index.ts";
+import { estimateTokens } from "./tokens.ts";
+import { RequestMessage } from "./request.ts";
+import { saveConversationSummary } from "./persistence.ts";
+
+const config = {
+  // Budget for the conversation turns sent verbatim; the system prompt comes on top
+  historyTokens: Number(Deno.env.get("CONTEXT_HISTORY_TOKENS") ?? 6000),
+  summaryTokens: Number(Deno.env.get("CONTEXT_SUMMARY_TOKENS") ?? 500),
+};
+
+export interface StoredSummary {
+  text: string;
+  // Last message the summary covers; it only applies to histories that contain this message
+  throughMessageId: string;
+}
+
+export interface ContextWindow {
+  messages: ChatMessage[];
+  // Summary of the turns before `messages`, for the system prompt
+  summary: string | null;
+  // Turns left out of `messages` that the summary doesn't cover yet
+  unsummarized: RequestMessage[];
+}
+
+// Keeps the most recent turns that fit the history budget (always at least the new question)
+// and replaces everything older with the stored rolling summary. A summary from another
+// branch of the conversation doesn't match the history and is ignored.
+export const buildContextWindow = (messages: RequestMessage[], stored: StoredSummary | null): ContextWindow => {
+  let start = messages.length - 1;
+  let tokens = estimateTokens(messages[start].content);
+  while (start > 0 && tokens + estimateTokens(messages[start - 1].content) <= config.historyTokens) {
+    start--;
+    tokens += estimateTokens(messages[start].content);
+  }
+
+  const summaryEnd = stored ? messages.findIndex((message) => message.id === stored.throughMessageId) : -1;
+  if (start === 0 && summaryEnd === -1) {
+    return { messages: messages.map(toChatMessage), summary: null, unsummarized: [] };
+  }
+
+  let windowStart = Math.min(Math.max(start, summaryEnd + 1), messages.length - 1);
+  // Providers expect the turns to open with the user (Anthropic rejects anything else).
+  if (messages[windowStart].role !== "user") windowStart++;
+
+  return {
+    messages: messages.slice(windowStart).map(toChatMessage),
+    summary: summaryEnd >= 0 ? stored!.text : null,
+    unsummarized: messages.slice(summaryEnd + 1, windowStart),
+  };
+};
+
+const toChatMessage = ({ role, content }: RequestMessage): ChatMessage => ({ role, content });
+
+const SUMMARY_PROMPT = `You maintain a running summary of a conversation between a user and a legal information assistant for India. Merge the existing summary with the new turns into one updated summary.
+
+Keep: the user's situation and goals, the people and organisations involved, dates, amounts, places, documents mentioned, the legal issues discussed, the Acts and sections cited, and the steps already suggested. Drop greetings and repetition. Write concise bullet points in English, keeping names of Acts and section numbers exactly as written.`;
+
+// Folds the turns that fell out of the window into the conversation's rolling summary so the
+// next request can use it. Runs after the response has started; failures only cost context.
+export const updateConversationSummary = async ({ provider, conversationId, previous, turns }: {
+  provider: ModelProvider;
+  conversationId: string;
+  previous: string | null;
+  turns: RequestMessage[];
+}) => {
+  const throughMessageId = turns[turns.length - 1]?.id;
+  // Unsaved turns (e.g. a failed request) can't anchor a summary.
+  if (!throughMessageId || turns.some((turn) => !turn.id)) return;
+
+  const transcript = turns
+    .map((turn) => `${turn.role === "user" ? "User" : "Assistant"}: ${turn.content}`)
+    .join("\n\n");
+
+  const summary = await provider.complete({
+    messages: [
+      { role: "system", content: SUMMARY_PROMPT },
+      {
+        role: "user",
+        content: `Existing summary:\n${previous ?? "(none)"}\n\nNew turns:\n${transcript}`,
+      },
+    ],
+    maxTokens: config.summaryTokens,
+  });
+
+  if (summary.trim()) {
+    await saveConversationSummary(conversationId, { summary: summary.trim(), throughMessageId });
+  }
+};
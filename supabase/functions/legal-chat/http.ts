@@ -0,0 +1,17 @@
+export const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+  'Access-Control-Expose-Headers': 'retry-after',
+};
+
+// Error bodies always carry a machine-readable `code` next to the human-readable `error`.
+export const errorResponse = (
+  status: number,
+  code: string,
+  message: string,
+  { details = {}, headers = {} }: { details?: Record<string, unknown>; headers?: Record<string, string> } = {},
+) =>
+  new Response(JSON.stringify({ error: message, code, ...details }), {
+    status,
+    headers: { ...corsHeaders, ...headers, "Content-Type": "application/json" },
+  });
@@ -1,9 +1,37 @@
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { getProvider, ProviderError } from "./providers/index.ts";
+import { AuthError, authenticate } from "./auth.ts";
+import { corsHeaders, errorResponse } from "./http.ts";
+import {
+  chargeCompletions,
+  enforceRateLimits,
+  getClientIp,
+  RateLimitError,
+  recordTokenUsage,
+} from "./rate-limit.ts";
+import {
+  ConversationNotFoundError,
+  loadConversation,
+  loadMessage,
+  MessageNotFoundError,
+  loadPreferredLanguage,
+  saveAssistantTurn,
+  saveMessageSuggestion,
+  saveUserTurn,
+} from "./persistence.ts";
+import { buildSystemPrompt } from "./prompt.ts";
+import { resolveLanguage } from "./languages.ts";
+import { retrieveSections } from "./retrieval.ts";
+import { createAnswerStream } from "./stream.ts";
+import { BadRequestError, parseChatRequest, readJsonBody } from "./request.ts";
+import { buildContextWindow, updateConversationSummary } from "./context.ts";
+import { estimateTokens } from "./tokens.ts";
+import { generateConversationTitle } from "./titles.ts";
+import { suggestTemplate } from "./suggestions.ts";
+import { StreamEvent } from "./protocol.ts";
 
-const corsHeaders = {
-  'Access-Control-Allow-Origin': '*',
-  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
-};
+// Supabase Edge Runtime global that keeps the worker alive for background work after responding.
+declare const EdgeRuntime: { waitUntil(promise: Promise<unknown>): void };
 
 serve(async (req) => {
   if (req.method === 'OPTIONS') {
@@ -11,77 +39,162 @@ serve(async (req) => {
   }
 
   try {
-    const { messages } = await req.json();
-    const LOVABLE_API_KEY = Deno.env.get("LOVABLE_API_KEY");
-    
-    if (!LOVABLE_API_KEY) {
-      throw new Error("LOVABLE_API_KEY is not configured");
+    const { user, supabase } = await authenticate(req);
+    const chatRequest = parseChatRequest(await readJsonBody(req));
+    const { messages } = chatRequest;
+
+    const conversation = chatRequest.conversationId ? await loadConversation(supabase, chatRequest.conversationId) : null;
+    const context = buildContextWindow(
+      messages,
+      conversation?.summary && conversation.summary_through_message_id
+        ? { text: conversation.summary, throughMessageId: conversation.summary_through_message_id }
+        : null,
+    );
+
+    const promptTokens = estimateTokens(context.messages.map((message) => message.content).join("") + (context.summary ?? ""));
+    await enforceRateLimits({ userId: user.id, ip: getClientIp(req), estimatedTokens: promptTokens });
+
+    const language = resolveLanguage(conversation?.language ?? await loadPreferredLanguage(supabase, user.id));
+
+    const lastMessage = messages[messages.length - 1];
+    let userMessageId: string | null = null;
+    if (conversation) {
+      if (chatRequest.regenerate) {
+        const existing = await loadMessage(supabase, conversation.id, chatRequest.userMessageId!);
+        if (existing.role !== "user") throw new BadRequestError("Only user messages can be re-answered");
+        userMessageId = existing.id;
+      } else {
+        if (chatRequest.parentId) await loadMessage(supabase, conversation.id, chatRequest.parentId);
+        userMessageId = await saveUserTurn(supabase, conversation.id, {
+          id: chatRequest.userMessageId,
+          parentId: chatRequest.parentId,
+          content: lastMessage.content,
+        });
+      }
     }
 
-    const systemPrompt = `You are a helpful legal assistant for JUSTICE PATH, a platform that helps everyday people understand and navigate legal processes in India. Your role is to:
-
-1. Explain legal concepts in plain, simple language that anyone can understand
-2. Guide users step-by-step through legal processes (like filing complaints, writing legal letters, understanding their rights)
-3. Suggest relevant legal documents or forms based on user queries
-4. Always remind users that you provide general legal information, not legal advice, and recommend consulting a lawyer for specific cases
-5. Be empathetic, patient, and encouraging - remember that users may be intimidated by the legal system
-6. When relevant, explain options available under Indian law
-7. Break down complex processes into simple, actionable steps
-8. Use examples to illustrate legal concepts when helpful
-
-Important guidelines:
-- Always be accurate and cite relevant laws/sections when applicable
-- Never provide specific legal advice - only general information
-- Be supportive and reduce legal anxiety
-- Use simple language, avoid legal jargon unless necessary (and always explain it)
-- Provide practical guidance that users can actually act on
-- When users ask about specific situations, give them a framework to think through their options`;
-
-    const response = await fetch("https://ai.gateway.lovable.dev/v1/chat/completions", {
-      method: "POST",
-      headers: {
-        Authorization: `Bearer ${LOVABLE_API_KEY}`,
-        "Content-Type": "application/json",
-      },
-      body: JSON.stringify({
-        model: "google/gemini-2.5-flash",
+    const provider = getProvider();
+
+    const statutes = await retrieveSections(supabase, lastMessage.content);
+    const systemPrompt = buildSystemPrompt({ language, statutes, summary: context.summary });
+
+    const upstreamAbort = new AbortController();
+    // Set once the answer is saved, so follow-ups can attach to it
+    let assistantMessageId: string | null = null;
+
+    let stream: ReadableStream<Uint8Array>;
+    try {
+      stream = await provider.streamChat({
         messages: [
           { role: "system", content: systemPrompt },
-          ...messages,
+          ...context.messages,
         ],
-        stream: true,
-      }),
-    });
+        signal: upstreamAbort.signal,
+      });
+    } catch (error) {
+      if (!(error instanceof ProviderError)) throw error;
 
-    if (!response.ok) {
-      if (response.status === 429) {
-        return new Response(JSON.stringify({ error: "Rate limit exceeded. Please try again in a moment." }), {
-          status: 429,
-          headers: { ...corsHeaders, "Content-Type": "application/json" },
-        });
+      if (error.status === 429) {
+        return errorResponse(429, "upstream_rate_limited", "Rate limit exceeded. Please try again in a moment.");
       }
-      if (response.status === 402) {
-        return new Response(JSON.stringify({ error: "Service temporarily unavailable. Please try again later." }), {
-          status: 402,
-          headers: { ...corsHeaders, "Content-Type": "application/json" },
-        });
+      if (error.status === 402) {
+        return errorResponse(402, "service_unavailable", "Service temporarily unavailable. Please try again later.");
       }
-      const errorText = await response.text();
-      console.error("AI gateway error:", response.status, errorText);
-      return new Response(JSON.stringify({ error: "AI service error" }), {
-        status: 500,
-        headers: { ...corsHeaders, "Content-Type": "application/json" },
-      });
+      console.error(`AI provider (${provider.name}) error for user ${user.id}:`, error.status, error.message);
+      return errorResponse(500, "ai_service_error", "AI service error");
     }
 
-    return new Response(response.body, {
+    const answer = createAnswerStream({
+      upstream: stream,
+      upstreamAbort,
+      clientSignal: req.signal,
+      preamble: statutes.map((section) => ({
+        type: "citation" as const,
+        sectionId: section.id,
+        act: section.act,
+        sectionNumber: section.section_number,
+        title: section.title,
+      })),
+      promptTokens,
+      estimateTokens,
+      onComplete: async (content, usage, { truncated }) => {
+        await recordTokenUsage(user.id, usage.completionTokens);
+        if (conversation && userMessageId && content) {
+          assistantMessageId = await saveAssistantTurn(conversation.id, {
+            id: chatRequest.assistantMessageId,
+            parentId: userMessageId,
+            content,
+            retrievedSections: statutes.map((section) => section.id),
+            truncated,
+          });
+        }
+      },
+      followUps: (content, { truncated }) => {
+        if (!content || truncated) return [];
+        const charged = chargeCompletions(provider, user.id);
+
+        // The first complete answer is enough to name the conversation.
+        const title = conversation && messages.length === 1 && !chatRequest.regenerate
+          ? generateConversationTitle({
+            provider: charged,
+            conversationId: conversation.id,
+            language,
+            question: lastMessage.content,
+            answer: content,
+          })
+            .then((generated): StreamEvent | null => generated ? { type: "title", title: generated } : null)
+            .catch((error) => {
+              console.error(`Title generation failed for conversation ${conversation.id}:`, error);
+              return null;
+            })
+          : null;
+        // Offers a prefilled template when the answer recommends drafting a document.
+        const suggestion = suggestTemplate({ provider: charged, supabase, messages: context.messages, answer: content })
+          .then(async (suggested) => {
+            if (suggested && assistantMessageId) await saveMessageSuggestion(assistantMessageId, suggested);
+            return suggested;
+          })
+          .catch((error) => {
+            console.error(`Template suggestion failed for user ${user.id}:`, error);
+            return null;
+          });
+
+        return title ? [suggestion, title] : [suggestion];
+      },
+    });
+    EdgeRuntime.waitUntil(answer.done);
+
+    if (conversation && context.unsummarized.length > 0) {
+      EdgeRuntime.waitUntil(
+        updateConversationSummary({
+          provider: chargeCompletions(provider, user.id),
+          conversationId: conversation.id,
+          previous: context.summary,
+          turns: context.unsummarized,
+        }).catch((error) => console.error(`Summary update failed for conversation ${conversation.id}:`, error)),
+      );
+    }
+
+    return new Response(answer.stream, {
       headers: { ...corsHeaders, "Content-Type": "text/event-stream" },
     });
   } catch (error) {
+    if (error instanceof AuthError) {
+      return errorResponse(401, "unauthorized", error.message);
+    }
+    if (error instanceof BadRequestError) {
+      return errorResponse(400, "invalid_request", error.message);
+    }
+    if (error instanceof ConversationNotFoundError || error instanceof MessageNotFoundError) {
+      return errorResponse(404, "conversation_not_found", error.message);
+    }
+    if (error instanceof RateLimitError) {
+      return errorResponse(429, "rate_limited", error.message, {
+        details: { scope: error.scope, retryAfter: error.retryAfter },
+        headers: { "Retry-After": String(error.retryAfter) },
+      });
+    }
     console.error("Legal chat error:", error);
-    return new Response(JSON.stringify({ error: error instanceof Error ? error.message : "Unknown error" }), {
-      status: 500,
-      headers: { ...corsHeaders, "Content-Type": "application/json" },
-    });
+    return errorResponse(500, "internal_error", error instanceof Error ? error.message : "Unknown error");
   }
 });
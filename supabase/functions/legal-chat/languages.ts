@@ -0,0 +1,25 @@
+export interface Language {
+  code: string;
+  name: string;
+  nativeName: string;
+}
+
+// Keep in sync with src/lib/languages.ts
+export const LANGUAGES: Language[] = [
+  { code: "en", name: "English", nativeName: "English" },
+  { code: "hi", name: "Hindi", nativeName: "हिन्दी" },
+  { code: "bn", name: "Bengali", nativeName: "বাংলা" },
+  { code: "mr", name: "Marathi", nativeName: "मराठी" },
+  { code: "te", name: "Telugu", nativeName: "తెలుగు" },
+  { code: "ta", name: "Tamil", nativeName: "தமிழ்" },
+  { code: "gu", name: "Gujarati", nativeName: "ગુજરાતી" },
+  { code: "kn", name: "Kannada", nativeName: "ಕನ್ನಡ" },
+  { code: "ml", name: "Malayalam", nativeName: "മലയാളം" },
+  { code: "pa", name: "Punjabi", nativeName: "ਪੰਜਾਬੀ" },
+  { code: "or", name: "Odia", nativeName: "ଓଡ଼ିଆ" },
+  { code: "ur", name: "Urdu", nativeName: "اردو" },
+];
+
+// Unknown or missing codes fall back to English.
+export const resolveLanguage = (code: string | null | undefined) =>
+  LANGUAGES.find((language) => language.code === code) ?? LANGUAGES[0];
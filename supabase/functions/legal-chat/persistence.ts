@@ -0,0 +1,135 @@
+import { SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { adminClient } from "./admin.ts";
+import { SuggestionEvent } from "./protocol.ts";
+
+export class ConversationNotFoundError extends Error {
+  constructor() {
+    super("Conversation not found");
+    this.name = "ConversationNotFoundError";
+  }
+}
+
+export class MessageNotFoundError extends Error {
+  constructor() {
+    super("Message not found in this conversation");
+    this.name = "MessageNotFoundError";
+  }
+}
+
+export interface Conversation {
+  id: string;
+  language: string | null;
+  summary: string | null;
+  summary_through_message_id: string | null;
+}
+
+// Uses the caller-scoped client, so RLS hides conversations the user doesn't own.
+export const loadConversation = async (supabase: SupabaseClient, conversationId: string): Promise<Conversation> => {
+  const { data, error } = await supabase
+    .from("chat_conversations")
+    .select("id, language, summary, summary_through_message_id")
+    .eq("id", conversationId)
+    .maybeSingle();
+
+  if (error) throw error;
+  if (!data) throw new ConversationNotFoundError();
+  return data;
+};
+
+export const loadPreferredLanguage = async (supabase: SupabaseClient, userId: string) => {
+  const { data, error } = await supabase
+    .from("profiles")
+    .select("preferred_language")
+    .eq("id", userId)
+    .maybeSingle();
+
+  if (error) throw error;
+  return data?.preferred_language ?? null;
+};
+
+// Checks that a message belongs to the conversation (and, through RLS, to the caller).
+export const loadMessage = async (supabase: SupabaseClient, conversationId: string, messageId: string) => {
+  const { data, error } = await supabase
+    .from("chat_messages")
+    .select("id, role")
+    .eq("id", messageId)
+    .eq("conversation_id", conversationId)
+    .maybeSingle();
+
+  if (error) throw error;
+  if (!data) throw new MessageNotFoundError();
+  return data as { id: string; role: "user" | "assistant" };
+};
+
+// RLS only allows clients to insert `role = 'user'` rows into their own conversations.
+export const saveUserTurn = async (
+  supabase: SupabaseClient,
+  conversationId: string,
+  { id, parentId, content }: { id: string | null; parentId: string | null; content: string },
+) => {
+  const { data, error } = await supabase
+    .from("chat_messages")
+    .insert({ id: id ?? undefined, conversation_id: conversationId, parent_id: parentId, role: "user", content })
+    .select("id")
+    .single();
+
+  if (error) throw error;
+  return data.id as string;
+};
+
+export const saveAssistantTurn = async (
+  conversationId: string,
+  { id, parentId, content, retrievedSections, truncated }: {
+    id: string | null;
+    parentId: string;
+    content: string;
+    retrievedSections: string[];
+    truncated: boolean;
+  },
+) => {
+  const { data, error } = await adminClient
+    .from("chat_messages")
+    .insert({
+      id: id ?? undefined,
+      conversation_id: conversationId,
+      parent_id: parentId,
+      role: "assistant",
+      content,
+      retrieved_sections: retrievedSections,
+      truncated,
+    })
+    .select("id")
+    .single();
+
+  if (error) throw error;
+
+  await adminClient
+    .from("chat_conversations")
+    .update({ updated_at: new Date().toISOString() })
+    .eq("id", conversationId);
+
+  return data.id as string;
+};
+
+// Keeps the template suggestion with the answer so the client can offer it again after a reload.
+export const saveMessageSuggestion = async (messageId: string, suggestion: SuggestionEvent) => {
+  const { error } = await adminClient
+    .from("chat_messages")
+    .update({ metadata: { suggestion } })
+    .eq("id", messageId);
+
+  if (error) throw error;
+};
+
+// Rolling summary of the turns that no longer fit the context window (see context.ts).
+export const saveConversationSummary = async (
+  conversationId: string,
+  { summary, throughMessageId }: { summary: string; throughMessageId: string },
+) => {
+  const { error } = await adminClient
+    .from("chat_conversations")
+    .update({ summary, summary_through_message_id: throughMessageId })
+    .eq("id", conversationId);
+
+  if (error) throw error;
+};
@@ -0,0 +1,56 @@
+// Versioned event protocol streamed from legal-chat to the browser as SSE. Each frame is
+// `event: <type>` plus one `data:` line holding the JSON event (with `v` and `type`).
+// Keep in sync with src/lib/legal-chat/protocol.ts.
+export const PROTOCOL_VERSION = 1;
+
+export interface TokenEvent {
+  type: "token";
+  text: string;
+}
+
+// A statute section retrieved for (and given to the model alongside) this answer.
+export interface CitationEvent {
+  type: "citation";
+  sectionId: string;
+  act: string;
+  sectionNumber: string;
+  title: string;
+}
+
+// Structured next step the client can offer, e.g. opening a prefilled template.
+export interface SuggestionEvent {
+  type: "suggestion";
+  kind: "template";
+  templateId: string;
+  label: string;
+  fields: Record<string, string>;
+}
+
+// The conversation got a generated title (sent once, after the first answer).
+export interface TitleEvent {
+  type: "title";
+  title: string;
+}
+
+export interface ErrorEvent {
+  type: "error";
+  code: string;
+  message: string;
+}
+
+// The answer is complete (or was cut short by an error). Follow-up events such as a save
+// failure, title or suggestion may still arrive before the stream closes.
+export interface DoneEvent {
+  type: "done";
+  usage: {
+    promptTokens: number;
+    completionTokens: number;
+  };
+}
+
+export type StreamEvent = TokenEvent | CitationEvent | SuggestionEvent | TitleEvent | ErrorEvent | DoneEvent;
+
+const encoder = new TextEncoder();
+
+export const encodeEvent = (event: StreamEvent) =>
+  encoder.encode(`event: ${event.type}\ndata: ${JSON.stringify({ v: PROTOCOL_VERSION, ...event })}\n\n`);
@@ -0,0 +1,95 @@
+import { ChatRequest, ModelProvider, ProviderError } from "./types.ts";
+import { encodeDelta, encodeDone, readSseEvents } from "./sse.ts";
+
+interface AnthropicConfig {
+  baseUrl: string;
+  apiKey: string;
+  model: string;
+  maxTokens: number;
+}
+
+const ANTHROPIC_VERSION = "2023-06-01";
+
+const requestMessages = async (
+  config: AnthropicConfig,
+  { messages, signal, maxTokens }: ChatRequest,
+  stream: boolean,
+) => {
+  const system = messages
+    .filter((message) => message.role === "system")
+    .map((message) => message.content)
+    .join("\n\n");
+
+  const response = await fetch(`${config.baseUrl.replace(/\/$/, "")}/v1/messages`, {
+    method: "POST",
+    headers: {
+      "x-api-key": config.apiKey,
+      "anthropic-version": ANTHROPIC_VERSION,
+      "Content-Type": "application/json",
+    },
+    body: JSON.stringify({
+      model: config.model,
+      max_tokens: maxTokens ?? config.maxTokens,
+      system: system || undefined,
+      messages: messages.filter((message) => message.role !== "system"),
+      stream,
+    }),
+    signal,
+  });
+
+  if (!response.ok) {
+    const errorText = await response.text();
+    throw new ProviderError(response.status, errorText || "Empty response from AI provider");
+  }
+  return response;
+};
+
+// Talks to the Anthropic Messages API and re-encodes its `content_block_delta` events
+// as OpenAI-style chunks so the client sees the same stream regardless of provider.
+export const createAnthropicProvider = (config: AnthropicConfig): ModelProvider => ({
+  name: "anthropic",
+
+  async streamChat(request: ChatRequest) {
+    const response = await requestMessages(config, request, true);
+    if (!response.body) {
+      throw new ProviderError(response.status, "Empty response from AI provider");
+    }
+
+    const upstream = response.body.getReader();
+
+    return new ReadableStream<Uint8Array>({
+      async start(controller) {
+        try {
+          for await (const { data } of readSseEvents(upstream)) {
+            const parsed = JSON.parse(data);
+
+            if (parsed.type === "content_block_delta" && parsed.delta?.type === "text_delta") {
+              controller.enqueue(encodeDelta(parsed.delta.text));
+            } else if (parsed.type === "error") {
+              throw new ProviderError(500, parsed.error?.message ?? "Anthropic stream error");
+            } else if (parsed.type === "message_stop") {
+              break;
+            }
+          }
+
+          controller.enqueue(encodeDone());
+          controller.close();
+        } catch (error) {
+          controller.error(error);
+        }
+      },
+      cancel(reason) {
+        return upstream.cancel(reason);
+      },
+    });
+  },
+
+  async complete(request: ChatRequest) {
+    const response = await requestMessages(config, request, false);
+    const data = await response.json();
+    return (data.content ?? [])
+      .filter((block: { type: string }) => block.type === "text")
+      .map((block: { text: string }) => block.text)
+      .join("");
+  },
+});
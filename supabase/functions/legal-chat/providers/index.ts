@@ -0,0 +1,40 @@
+import { createAnthropicProvider } from "./anthropic.ts";
+import { createOpenAICompatibleProvider } from "./openai.ts";
+import { createStubProvider } from "./stub.ts";
+import { ModelProvider } from "./types.ts";
+
+export * from "./types.ts";
+
+const requireEnv = (name: string, fallback?: string) => {
+  const value = Deno.env.get(name) ?? (fallback ? Deno.env.get(fallback) : undefined);
+  if (!value) {
+    throw new Error(`${name} is not configured`);
+  }
+  return value;
+};
+
+// Picks the model provider from AI_PROVIDER ("openai" | "anthropic" | "stub").
+// Defaults to the Lovable AI gateway so existing deployments keep working unchanged.
+export const getProvider = (): ModelProvider => {
+  const provider = Deno.env.get("AI_PROVIDER") ?? "openai";
+
+  switch (provider) {
+    case "openai":
+      return createOpenAICompatibleProvider({
+        baseUrl: Deno.env.get("AI_BASE_URL") ?? "https://ai.gateway.lovable.dev/v1",
+        apiKey: requireEnv("AI_API_KEY", "LOVABLE_API_KEY"),
+        model: Deno.env.get("AI_MODEL") ?? "google/gemini-2.5-flash",
+      });
+    case "anthropic":
+      return createAnthropicProvider({
+        baseUrl: Deno.env.get("AI_BASE_URL") ?? "https://api.anthropic.com",
+        apiKey: requireEnv("AI_API_KEY", "ANTHROPIC_API_KEY"),
+        model: Deno.env.get("AI_MODEL") ?? "claude-3-5-haiku-latest",
+        maxTokens: Number(Deno.env.get("AI_MAX_TOKENS") ?? 2048),
+      });
+    case "stub":
+      return createStubProvider({ response: Deno.env.get("AI_STUB_RESPONSE") });
+    default:
+      throw new Error(`Unknown AI_PROVIDER "${provider}"`);
+  }
+};
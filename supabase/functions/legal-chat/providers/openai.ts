@@ -0,0 +1,54 @@
+import { ChatRequest, ModelProvider, ProviderError } from "./types.ts";
+
+interface OpenAICompatibleConfig {
+  baseUrl: string;
+  apiKey: string;
+  model: string;
+}
+
+const requestCompletion = async (
+  config: OpenAICompatibleConfig,
+  { messages, signal, maxTokens }: ChatRequest,
+  stream: boolean,
+) => {
+  const response = await fetch(`${config.baseUrl.replace(/\/$/, "")}/chat/completions`, {
+    method: "POST",
+    headers: {
+      Authorization: `Bearer ${config.apiKey}`,
+      "Content-Type": "application/json",
+    },
+    body: JSON.stringify({
+      model: config.model,
+      messages,
+      max_tokens: maxTokens,
+      stream,
+    }),
+    signal,
+  });
+
+  if (!response.ok) {
+    const errorText = await response.text();
+    throw new ProviderError(response.status, errorText || "Empty response from AI provider");
+  }
+  return response;
+};
+
+// Works with any OpenAI-compatible chat completions endpoint (OpenAI, the Lovable AI gateway,
+// OpenRouter, vLLM, ...). The upstream stream already matches our contract, so it is passed through.
+export const createOpenAICompatibleProvider = (config: OpenAICompatibleConfig): ModelProvider => ({
+  name: "openai",
+
+  async streamChat(request: ChatRequest) {
+    const response = await requestCompletion(config, request, true);
+    if (!response.body) {
+      throw new ProviderError(response.status, "Empty response from AI provider");
+    }
+    return response.body;
+  },
+
+  async complete(request: ChatRequest) {
+    const response = await requestCompletion(config, request, false);
+    const data = await response.json();
+    return data.choices?.[0]?.message?.content ?? "";
+  },
+});
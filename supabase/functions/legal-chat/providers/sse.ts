@@ -0,0 +1,41 @@
+const encoder = new TextEncoder();
+
+export const encodeDelta = (content: string) =>
+  encoder.encode(`data: ${JSON.stringify({ choices: [{ delta: { content } }] })}\n\n`);
+
+export const encodeDone = () => encoder.encode("data: [DONE]\n\n");
+
+// Splits an SSE byte stream into events, yielding the event name and joined data lines.
+// Takes the reader rather than the stream so callers can still cancel it mid-iteration.
+export async function* readSseEvents(reader: ReadableStreamDefaultReader<Uint8Array>) {
+  const decoder = new TextDecoder();
+  let buffer = "";
+  let event = "message";
+  let data: string[] = [];
+
+  while (true) {
+    const { done, value } = await reader.read();
+    if (done) break;
+
+    buffer += decoder.decode(value, { stream: true });
+
+    let newlineIndex: number;
+    while ((newlineIndex = buffer.indexOf("\n")) !== -1) {
+      let line = buffer.slice(0, newlineIndex);
+      buffer = buffer.slice(newlineIndex + 1);
+      if (line.endsWith("\r")) line = line.slice(0, -1);
+
+      if (line === "") {
+        if (data.length > 0) yield { event, data: data.join("\n") };
+        event = "message";
+        data = [];
+        continue;
+      }
+      if (line.startsWith(":")) continue;
+      if (line.startsWith("event:")) event = line.slice(6).trim();
+      if (line.startsWith("data:")) data.push(line.slice(5).trimStart());
+    }
+  }
+
+  if (data.length > 0) yield { event, data: data.join("\n") };
+}
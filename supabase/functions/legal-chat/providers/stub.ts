@@ -0,0 +1,35 @@
+import { ChatRequest, ModelProvider } from "./types.ts";
+import { encodeDelta, encodeDone } from "./sse.ts";
+
+interface StubConfig {
+  response?: string;
+}
+
+const stubText = (config: StubConfig, { messages }: ChatRequest) => {
+  const lastUserMessage = [...messages].reverse().find((message) => message.role === "user");
+  return config.response ?? `This is a stub response to: ${lastUserMessage?.content ?? ""}`;
+};
+
+// Deterministic offline provider for local development and integration tests. Replies with a
+// fixed text (or an echo of the last user message) split into word-sized chunks.
+export const createStubProvider = (config: StubConfig = {}): ModelProvider => ({
+  name: "stub",
+
+  async streamChat(request: ChatRequest) {
+    const chunks = stubText(config, request).match(/\S+\s*/g) ?? [];
+
+    return new ReadableStream<Uint8Array>({
+      start(controller) {
+        for (const chunk of chunks) {
+          controller.enqueue(encodeDelta(chunk));
+        }
+        controller.enqueue(encodeDone());
+        controller.close();
+      },
+    });
+  },
+
+  async complete(request: ChatRequest) {
+    return stubText(config, request);
+  },
+});
@@ -0,0 +1,30 @@
+export interface ChatMessage {
+  role: "system" | "user" | "assistant";
+  content: string;
+}
+
+export interface ChatRequest {
+  messages: ChatMessage[];
+  signal?: AbortSignal;
+  // Upper bound on the reply length; providers fall back to their configured default
+  maxTokens?: number;
+}
+
+// Every provider streams back OpenAI-style SSE (`data: {"choices":[{"delta":{"content":"..."}}]}`
+// terminated by `data: [DONE]`), which stream.ts turns into protocol events for the client.
+export interface ModelProvider {
+  name: string;
+  streamChat(request: ChatRequest): Promise<ReadableStream<Uint8Array>>;
+  // Non-streaming completion for background work such as conversation summaries.
+  complete(request: ChatRequest): Promise<string>;
+}
+
+export class ProviderError extends Error {
+  status: number;
+
+  constructor(status: number, message: string) {
+    super(message);
+    this.name = "ProviderError";
+    this.status = status;
+  }
+}
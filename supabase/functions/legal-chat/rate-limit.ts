@@ -0,0 +1,93 @@
+import { adminClient } from "./admin.ts";
+import { ModelProvider } from "./providers/index.ts";
+import { estimateTokens } from "./tokens.ts";
+
+export type RateLimitScope = "user" | "ip" | "daily_tokens";
+
+export class RateLimitError extends Error {
+  scope: RateLimitScope;
+  retryAfter: number;
+
+  constructor(scope: RateLimitScope, retryAfter: number, message: string) {
+    super(message);
+    this.name = "RateLimitError";
+    this.scope = scope;
+    this.retryAfter = retryAfter;
+  }
+}
+
+const config = {
+  userMessagesPerMinute: Number(Deno.env.get("RATE_LIMIT_USER_PER_MINUTE") ?? 10),
+  ipMessagesPerMinute: Number(Deno.env.get("RATE_LIMIT_IP_PER_MINUTE") ?? 30),
+  dailyTokens: Number(Deno.env.get("RATE_LIMIT_DAILY_TOKENS") ?? 200000),
+};
+
+// Clients can send their own X-Forwarded-For, so its first entries can't be trusted. Prefer the
+// address set by the platform's edge, then the hop our gateway appended last.
+export const getClientIp = (req: Request) =>
+  req.headers.get("cf-connecting-ip")?.trim() ||
+  req.headers.get("x-forwarded-for")?.split(",").pop()?.trim() ||
+  null;
+
+const consumeBucket = async (key: string, perMinute: number) => {
+  const { data, error } = await adminClient
+    .rpc("consume_rate_limit", {
+      p_key: key,
+      p_capacity: perMinute,
+      p_refill_per_second: perMinute / 60,
+    })
+    .single();
+
+  if (error) throw error;
+  return data as { allowed: boolean; retry_after_seconds: number };
+};
+
+// Checks the per-user and per-IP message buckets, then the user's daily token quota,
+// charging `estimatedTokens` to today's usage. Throws RateLimitError on the first limit hit.
+export const enforceRateLimits = async ({ userId, ip, estimatedTokens }: {
+  userId: string;
+  ip: string | null;
+  estimatedTokens: number;
+}) => {
+  const user = await consumeBucket(`user:${userId}`, config.userMessagesPerMinute);
+  if (!user.allowed) {
+    throw new RateLimitError("user", user.retry_after_seconds, "You're sending messages too quickly.");
+  }
+
+  if (ip) {
+    const ipBucket = await consumeBucket(`ip:${ip}`, config.ipMessagesPerMinute);
+    if (!ipBucket.allowed) {
+      throw new RateLimitError("ip", ipBucket.retry_after_seconds, "Too many requests from your network.");
+    }
+  }
+
+  await recordTokenUsage(userId, estimatedTokens, config.dailyTokens);
+};
+
+export const recordTokenUsage = async (userId: string, tokens: number, dailyLimit: number | null = null) => {
+  const { data, error } = await adminClient
+    .rpc("consume_daily_tokens", {
+      p_user_id: userId,
+      p_tokens: tokens,
+      p_daily_limit: dailyLimit,
+    })
+    .single();
+
+  if (error) throw error;
+
+  const result = data as { allowed: boolean; retry_after_seconds: number };
+  if (!result.allowed) {
+    throw new RateLimitError("daily_tokens", result.retry_after_seconds, "You've reached today's usage limit.");
+  }
+};
+
+// Charges every non-streaming completion made through the returned provider to the user's
+// daily quota (prompt and reply, estimated). Used for the extra calls an answer triggers.
+export const chargeCompletions = (provider: ModelProvider, userId: string): ModelProvider => ({
+  ...provider,
+  complete: async (request) => {
+    const reply = await provider.complete(request);
+    await recordTokenUsage(userId, estimateTokens(request.messages.map((message) => message.content).join("") + reply));
+    return reply;
+  },
+});
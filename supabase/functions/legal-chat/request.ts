@@ -0,0 +1,80 @@
+import { ChatMessage } from "./providers/index.ts";
+
+export class BadRequestError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "BadRequestError";
+  }
+}
+
+export interface RequestMessage extends ChatMessage {
+  // Persisted chat_messages id, when the client knows it; lets context.ts match the summary
+  id: string | null;
+}
+
+export interface LegalChatRequest {
+  messages: RequestMessage[];
+  conversationId: string | null;
+  // Client-generated ids so the browser knows which rows to branch from without a round trip
+  userMessageId: string | null;
+  assistantMessageId: string | null;
+  // The message the new user turn replies to (null for the first turn or an edited first question)
+  parentId: string | null;
+  // Re-answer the existing user turn `userMessageId` instead of inserting a new one
+  regenerate: boolean;
+}
+
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+const optionalUuid = (value: unknown, field: string) => {
+  if (value === undefined || value === null) return null;
+  if (typeof value !== "string" || !UUID_PATTERN.test(value)) {
+    throw new BadRequestError(`${field} must be a UUID`);
+  }
+  return value;
+};
+
+// Reads the request body as JSON, treating an unparseable body as a client error.
+export const readJsonBody = async (req: Request): Promise<unknown> => {
+  try {
+    return await req.json();
+  } catch {
+    throw new BadRequestError("request body must be valid JSON");
+  }
+};
+
+export const parseChatRequest = (input: unknown): LegalChatRequest => {
+  if (!input || typeof input !== "object" || Array.isArray(input)) {
+    throw new BadRequestError("request body must be a JSON object");
+  }
+  const body = input as Record<string, unknown>;
+  const { messages } = body;
+  if (!Array.isArray(messages) || messages.length === 0) {
+    throw new BadRequestError("messages must be a non-empty array");
+  }
+
+  const sanitized = messages.map((message): RequestMessage => {
+    if (!message || typeof message !== "object" || (message.role !== "user" && message.role !== "assistant") || typeof message.content !== "string") {
+      throw new BadRequestError("each message needs a user/assistant role and string content");
+    }
+    return { id: optionalUuid(message.id, "message id"), role: message.role, content: message.content };
+  });
+
+  if (sanitized[sanitized.length - 1].role !== "user") {
+    throw new BadRequestError("the last message must be from the user");
+  }
+
+  const request: LegalChatRequest = {
+    messages: sanitized,
+    conversationId: optionalUuid(body.conversation_id, "conversation_id"),
+    userMessageId: optionalUuid(body.user_message_id, "user_message_id"),
+    assistantMessageId: optionalUuid(body.assistant_message_id, "assistant_message_id"),
+    parentId: optionalUuid(body.parent_id, "parent_id"),
+    regenerate: body.regenerate === true,
+  };
+
+  if (request.regenerate && !request.userMessageId) {
+    throw new BadRequestError("regenerate requires user_message_id");
+  }
+  return request;
+};
@@ -0,0 +1,31 @@
+import { SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2";
+
+export interface StatuteSection {
+  id: string;
+  act: string;
+  act_short_name: string;
+  section_number: string;
+  title: string;
+  text: string;
+  effective_from: string | null;
+  effective_to: string | null;
+}
+
+const MATCH_COUNT = Number(Deno.env.get("RETRIEVAL_MATCH_COUNT") ?? 5);
+
+// Full-text search over the statutes table. Retrieval is best effort: if it fails the
+// answer is generated without grounding rather than failing the whole request.
+export const retrieveSections = async (supabase: SupabaseClient, query: string): Promise<StatuteSection[]> => {
+  if (!query.trim() || MATCH_COUNT <= 0) return [];
+
+  const { data, error } = await supabase.rpc("search_statutes", {
+    p_query: query,
+    p_match_count: MATCH_COUNT,
+  });
+
+  if (error) {
+    console.error("Statute retrieval failed:", error);
+    return [];
+  }
+  return data ?? [];
+};
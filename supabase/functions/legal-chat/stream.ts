@@ -0,0 +1,132 @@
+import { encodeEvent, StreamEvent } from "./protocol.ts";
+import { readSseEvents } from "./providers/sse.ts";
+
+interface AnswerStreamOptions {
+  upstream: ReadableStream<Uint8Array>;
+  // Aborts the upstream provider request when the client disconnects
+  upstreamAbort: AbortController;
+  // The incoming request's signal, which fires when the client goes away
+  clientSignal: AbortSignal;
+  // Events sent before the first token (e.g. citations for retrieved sections)
+  preamble: StreamEvent[];
+  promptTokens: number;
+  estimateTokens: (text: string) => number;
+  // Runs once the answer is finished or cut short, after `done` is sent. Errors are reported
+  // to the client as `persistence_failed`.
+  onComplete: (
+    content: string,
+    usage: { promptTokens: number; completionTokens: number },
+    options: { truncated: boolean },
+  ) => Promise<void>;
+  // Extra events worked out from the saved answer (e.g. a title), each sent as soon as it
+  // resolves. They arrive after `done`, so they never hold up the answer; must not reject.
+  followUps?: (content: string, options: { truncated: boolean }) => Promise<StreamEvent | null>[];
+}
+
+// Converts the provider's OpenAI-style stream into protocol events. If the client disconnects
+// (closed tab or Stop button) the upstream request is cancelled and `onComplete` receives the
+// partial answer with `truncated: true`. The `done` event goes out as soon as the answer stops,
+// so a Stop after it can't make the client and the saved message disagree. `done` (the
+// returned promise) resolves when the remaining work has finished (hand it to EdgeRuntime.waitUntil).
+export const createAnswerStream = ({
+  upstream,
+  upstreamAbort,
+  clientSignal,
+  preamble,
+  promptTokens,
+  estimateTokens,
+  onComplete,
+  followUps,
+}: AnswerStreamOptions) => {
+  let controller: ReadableStreamDefaultController<Uint8Array>;
+  let clientConnected = true;
+  const reader = upstream.getReader();
+
+  const disconnect = () => {
+    if (!clientConnected) return;
+    clientConnected = false;
+    upstreamAbort.abort();
+    reader.cancel().catch(() => undefined);
+  };
+  clientSignal.addEventListener("abort", disconnect);
+
+  const send = (event: StreamEvent) => {
+    if (!clientConnected) return;
+    try {
+      controller.enqueue(encodeEvent(event));
+    } catch {
+      disconnect();
+    }
+  };
+
+  const close = () => {
+    if (!clientConnected) return;
+    try {
+      controller.close();
+    } catch {
+      // Already closed by a disconnect
+    }
+  };
+
+  const stream = new ReadableStream<Uint8Array>({
+    start(streamController) {
+      controller = streamController;
+    },
+    cancel() {
+      disconnect();
+    },
+  });
+
+  const run = async () => {
+    preamble.forEach(send);
+
+    let content = "";
+    try {
+      for await (const { data } of readSseEvents(reader)) {
+        if (data === "[DONE]") break;
+
+        let text: string | undefined;
+        try {
+          text = JSON.parse(data).choices?.[0]?.delta?.content;
+        } catch {
+          continue;
+        }
+        if (text) {
+          content += text;
+          send({ type: "token", text });
+        }
+      }
+    } catch (error) {
+      // An abort caused by our own disconnect handling is expected; anything else is a provider failure.
+      if (clientConnected) {
+        console.error("AI provider stream failed:", error);
+        send({ type: "error", code: "stream_interrupted", message: "The answer was interrupted. Please try again." });
+        close();
+        return;
+      }
+    }
+
+    const truncated = !clientConnected;
+    const usage = { promptTokens, completionTokens: estimateTokens(content) };
+    send({ type: "done", usage });
+
+    try {
+      await onComplete(content, usage, { truncated });
+    } catch (error) {
+      console.error("Failed to persist assistant turn:", error);
+      send({ type: "error", code: "persistence_failed", message: "The answer could not be saved to this conversation." });
+      close();
+      return;
+    }
+
+    await Promise.all(
+      (followUps?.(content, { truncated }) ?? []).map(async (event) => {
+        const resolved = await event;
+        if (resolved) send(resolved);
+      }),
+    );
+    close();
+  };
+
+  return { stream, done: run() };
+};
@@ -0,0 +1,102 @@
+import { SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { ChatMessage, ModelProvider } from "./providers/index.ts";
+import { SuggestionEvent } from "./protocol.ts";
+
+interface TemplateField {
+  name: string;
+  label: string;
+  type: string;
+}
+
+interface LegalTemplate {
+  slug: string;
+  title: string;
+  description: string;
+  fields: TemplateField[];
+}
+
+const MAX_FIELD_LENGTH = 1000;
+const TRANSCRIPT_TURNS = 6;
+const TRANSCRIPT_TURN_CHARS = 1500;
+
+// Cheap check before spending a model call: only answers that tell the user to draft, send or
+// file a document can lead to a template. Mentioning a notice or complaint alone isn't enough.
+const DRAFTING_HINT =
+  /\b(draft|writ(e|ing)|send|sending|serv(e|ing)|fil(e|ing)|lodg(e|ing)|submit(ting)?)\b[^.\n]{0,80}\b(notice|complaint|application|affidavit|FIR|letter|appeal|petition)s?\b/i;
+
+const suggestionPrompt = (templates: LegalTemplate[]) => `You decide whether a legal help conversation should end with an offer to draft a document from one of these templates, and pull out the details the user has already given.
+
+Templates:
+${templates.map((template) => `- ${template.slug}: ${template.title}. ${template.description}
+  Fields: ${template.fields.map((field) => `${field.name} (${field.label})`).join(", ")}`).join("\n")}
+
+Reply with JSON only, no prose: {"template": "<slug>" or null, "fields": {"<field name>": "<value>"}}.
+Pick a template only if the assistant's last answer recommends filing, sending or writing that kind of document. Fill a field only with details the user actually stated; leave out anything unknown and never invent names, dates or amounts. Write dates as YYYY-MM-DD and amounts as digits only.`;
+
+const loadTemplates = async (supabase: SupabaseClient): Promise<LegalTemplate[]> => {
+  const { data, error } = await supabase
+    .from("legal_templates")
+    .select("slug, title, description, fields");
+
+  if (error) throw error;
+  return (data ?? []).map((template) => ({
+    ...template,
+    fields: Array.isArray(template.fields) ? template.fields : [],
+  }));
+};
+
+const parseJsonObject = (raw: string): Record<string, unknown> | null => {
+  const start = raw.indexOf("{");
+  const end = raw.lastIndexOf("}");
+  if (start === -1 || end <= start) return null;
+  try {
+    const parsed = JSON.parse(raw.slice(start, end + 1));
+    return parsed && typeof parsed === "object" && !Array.isArray(parsed) ? parsed : null;
+  } catch {
+    return null;
+  }
+};
+
+// Asks the model whether the answer points to one of the legal_templates and, if so, which
+// of its fields the conversation already answers. `templateId` is the template's slug, which
+// is what /forms/:slug opens. Returns null when nothing fits; the suggestion is only a
+// convenience, so callers should treat failures the same way.
+export const suggestTemplate = async ({ provider, supabase, messages, answer }: {
+  provider: ModelProvider;
+  supabase: SupabaseClient;
+  messages: ChatMessage[];
+  answer: string;
+}): Promise<SuggestionEvent | null> => {
+  if (!DRAFTING_HINT.test(answer)) return null;
+
+  const templates = await loadTemplates(supabase);
+  if (templates.length === 0) return null;
+
+  const transcript = [...messages, { role: "assistant" as const, content: answer }]
+    .slice(-TRANSCRIPT_TURNS)
+    .map((message) => `${message.role === "user" ? "User" : "Assistant"}: ${message.content.substring(0, TRANSCRIPT_TURN_CHARS)}`)
+    .join("\n\n");
+
+  const raw = await provider.complete({
+    messages: [
+      { role: "system", content: suggestionPrompt(templates) },
+      { role: "user", content: transcript },
+    ],
+    maxTokens: 400,
+  });
+
+  const parsed = parseJsonObject(raw);
+  const template = templates.find((candidate) => candidate.slug === parsed?.template);
+  if (!parsed || !template) return null;
+
+  const extracted = parsed.fields && typeof parsed.fields === "object" ? parsed.fields as Record<string, unknown> : {};
+  const fieldNames = new Set(template.fields.map((field) => field.name));
+  const fields = Object.fromEntries(
+    Object.entries(extracted)
+      .filter(([name, value]) => fieldNames.has(name) && (typeof value === "string" || typeof value === "number"))
+      .map(([name, value]) => [name, String(value).trim().substring(0, MAX_FIELD_LENGTH)])
+      .filter(([, value]) => value),
+  );
+
+  return { type: "suggestion", kind: "template", templateId: template.slug, label: template.title, fields };
+};
@@ -0,0 +1,48 @@
+import { adminClient } from "./admin.ts";
+import { Language } from "./languages.ts";
+import { ModelProvider } from "./providers/index.ts";
+
+const MAX_TITLE_LENGTH = 80;
+
+const titlePrompt = (language: Language) =>
+  `Write a short, specific title (at most 6 words) for a legal help conversation that starts with the exchange below. Name the topic, not the user (e.g. "Security deposit not returned by landlord"). Write it in ${language.name} (${language.nativeName}). Reply with the title only: no quotes, no trailing punctuation.`;
+
+const cleanTitle = (raw: string) =>
+  raw
+    .split("\n")[0]
+    .replace(/^(title:\s*)/i, "")
+    .replace(/^["'“”‘’*#\s]+|["'“”‘’*.\s]+$/g, "")
+    .substring(0, MAX_TITLE_LENGTH)
+    .trim();
+
+// Replaces the placeholder title (the first message, truncated) with a generated one.
+// Titles the user renamed are marked title_is_custom and never overwritten; the check is part
+// of the UPDATE so a rename racing with generation still wins. Returns the new title, if set.
+export const generateConversationTitle = async ({ provider, conversationId, language, question, answer }: {
+  provider: ModelProvider;
+  conversationId: string;
+  language: Language;
+  question: string;
+  answer: string;
+}) => {
+  const raw = await provider.complete({
+    messages: [
+      { role: "system", content: titlePrompt(language) },
+      { role: "user", content: `User: ${question}\n\nAssistant: ${answer.substring(0, 2000)}` },
+    ],
+    maxTokens: 30,
+  });
+
+  const title = cleanTitle(raw);
+  if (!title) return null;
+
+  const { data, error } = await adminClient
+    .from("chat_conversations")
+    .update({ title })
+    .eq("id", conversationId)
+    .eq("title_is_custom", false)
+    .select("id");
+
+  if (error) throw error;
+  return data.length > 0 ? title : null;
+};
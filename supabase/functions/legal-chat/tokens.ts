@@ -0,0 +1,10 @@
+// Letters of scripts other than Latin, e.g. Devanagari, Tamil or Bengali.
+const NON_LATIN = /[^\p{Script=Latin}\p{Script=Common}\p{Script=Inherited}]/gu;
+
+// Rough token estimate used for quota accounting and the context budget. English averages
+// ~4 characters per token, but tokenizers split Indic scripts much more finely, so each
+// non-Latin character is counted as a token of its own.
+export const estimateTokens = (text: string) => {
+  const nonLatin = text.match(NON_LATIN)?.length ?? 0;
+  return Math.ceil((text.length - nonLatin) / 4) + nonLatin;
+};
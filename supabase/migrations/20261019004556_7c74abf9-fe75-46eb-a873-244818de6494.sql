@@ -0,0 +1,100 @@
+-- Token buckets for legal-chat rate limiting, keyed by e.g. 'user:<uuid>' or 'ip:<address>'
+CREATE TABLE public.rate_limit_buckets (
+  key TEXT PRIMARY KEY,
+  tokens DOUBLE PRECISION NOT NULL,
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+-- Enable RLS on rate_limit_buckets (no policies: only the service role touches it)
+ALTER TABLE public.rate_limit_buckets ENABLE ROW LEVEL SECURITY;
+
+-- Create usage_daily table for per-user daily token quotas
+CREATE TABLE public.usage_daily (
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  day DATE NOT NULL DEFAULT CURRENT_DATE,
+  tokens_used INTEGER NOT NULL DEFAULT 0,
+  PRIMARY KEY (user_id, day)
+);
+
+-- Enable RLS on usage_daily
+ALTER TABLE public.usage_daily ENABLE ROW LEVEL SECURITY;
+
+-- Usage policies
+CREATE POLICY "Users can view own usage"
+  ON public.usage_daily FOR SELECT
+  USING (auth.uid() = user_id);
+
+-- Refill a bucket based on elapsed time and try to take p_cost tokens from it.
+-- The row lock makes concurrent requests for the same key consume atomically.
+CREATE OR REPLACE FUNCTION public.consume_rate_limit(
+  p_key TEXT,
+  p_capacity DOUBLE PRECISION,
+  p_refill_per_second DOUBLE PRECISION,
+  p_cost DOUBLE PRECISION DEFAULT 1
+)
+RETURNS TABLE (allowed BOOLEAN, retry_after_seconds INTEGER) AS $$
+DECLARE
+  v_now TIMESTAMPTZ := clock_timestamp();
+  v_tokens DOUBLE PRECISION;
+BEGIN
+  INSERT INTO public.rate_limit_buckets (key, tokens, updated_at)
+  VALUES (p_key, p_capacity, v_now)
+  ON CONFLICT (key) DO NOTHING;
+
+  SELECT LEAST(p_capacity, tokens + EXTRACT(EPOCH FROM (v_now - updated_at)) * p_refill_per_second)
+  INTO v_tokens
+  FROM public.rate_limit_buckets
+  WHERE key = p_key
+  FOR UPDATE;
+
+  IF v_tokens >= p_cost THEN
+    UPDATE public.rate_limit_buckets SET tokens = v_tokens - p_cost, updated_at = v_now WHERE key = p_key;
+    RETURN QUERY SELECT TRUE, 0;
+  ELSE
+    UPDATE public.rate_limit_buckets SET tokens = v_tokens, updated_at = v_now WHERE key = p_key;
+    RETURN QUERY SELECT FALSE, CEIL((p_cost - v_tokens) / p_refill_per_second)::INTEGER;
+  END IF;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Add p_tokens to today's usage. With a limit, refuses (without recording) once the
+-- user has already used up the day's quota; retry_after_seconds counts to UTC midnight.
+CREATE OR REPLACE FUNCTION public.consume_daily_tokens(
+  p_user_id UUID,
+  p_tokens INTEGER,
+  p_daily_limit INTEGER DEFAULT NULL
+)
+RETURNS TABLE (allowed BOOLEAN, retry_after_seconds INTEGER) AS $$
+DECLARE
+  v_today DATE := (NOW() AT TIME ZONE 'utc')::DATE;
+  v_used INTEGER;
+BEGIN
+  INSERT INTO public.usage_daily (user_id, day, tokens_used)
+  VALUES (p_user_id, v_today, 0)
+  ON CONFLICT (user_id, day) DO NOTHING;
+
+  SELECT tokens_used INTO v_used
+  FROM public.usage_daily
+  WHERE user_id = p_user_id AND day = v_today
+  FOR UPDATE;
+
+  IF p_daily_limit IS NOT NULL AND v_used >= p_daily_limit THEN
+    RETURN QUERY SELECT
+      FALSE,
+      CEIL(EXTRACT(EPOCH FROM ((v_today + 1)::TIMESTAMP - (NOW() AT TIME ZONE 'utc'))))::INTEGER;
+    RETURN;
+  END IF;
+
+  UPDATE public.usage_daily
+  SET tokens_used = tokens_used + p_tokens
+  WHERE user_id = p_user_id AND day = v_today;
+
+  RETURN QUERY SELECT TRUE, 0;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Only the legal-chat edge function (service role) may consume quota
+REVOKE EXECUTE ON FUNCTION public.consume_rate_limit(TEXT, DOUBLE PRECISION, DOUBLE PRECISION, DOUBLE PRECISION) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.consume_daily_tokens(UUID, INTEGER, INTEGER) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.consume_rate_limit(TEXT, DOUBLE PRECISION, DOUBLE PRECISION, DOUBLE PRECISION) TO service_role;
+GRANT EXECUTE ON FUNCTION public.consume_daily_tokens(UUID, INTEGER, INTEGER) TO service_role;
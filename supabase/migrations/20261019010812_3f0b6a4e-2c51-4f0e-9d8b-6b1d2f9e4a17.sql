@@ -0,0 +1,14 @@
+-- Assistant turns are now written by the legal-chat edge function (service role), so
+-- clients may only insert their own user turns and can no longer forge assistant replies
+DROP POLICY "Users can insert messages to own conversations" ON public.chat_messages;
+
+CREATE POLICY "Users can insert user messages to own conversations"
+  ON public.chat_messages FOR INSERT
+  WITH CHECK (
+    role = 'user'
+    AND EXISTS (
+      SELECT 1 FROM public.chat_conversations
+      WHERE chat_conversations.id = chat_messages.conversation_id
+      AND chat_conversations.user_id = auth.uid()
+    )
+  );
@@ -0,0 +1,3 @@
+-- Per-conversation answer language. NULL means "use profiles.preferred_language".
+ALTER TABLE public.chat_conversations
+  ADD COLUMN language TEXT;
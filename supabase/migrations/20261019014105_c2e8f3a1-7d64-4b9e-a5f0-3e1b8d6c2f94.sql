@@ -0,0 +1,59 @@
+-- Create statutes table holding the bundled statute corpus (see src/data/statutes and
+-- `npm run seed:statutes`). Ids look like 'bns-318' or 'cpa-2-7'.
+CREATE TABLE public.statutes (
+  id TEXT PRIMARY KEY,
+  act TEXT NOT NULL,
+  act_short_name TEXT NOT NULL,
+  section_number TEXT NOT NULL,
+  title TEXT NOT NULL,
+  text TEXT NOT NULL,
+  effective_from DATE,
+  effective_to DATE,
+  corresponds_to TEXT[] NOT NULL DEFAULT '{}',
+  search_vector TSVECTOR GENERATED ALWAYS AS (
+    setweight(to_tsvector('english', act_short_name || ' ' || section_number || ' ' || title), 'A') ||
+    setweight(to_tsvector('english', text), 'B')
+  ) STORED,
+  UNIQUE (act_short_name, section_number)
+);
+
+CREATE INDEX statutes_search_vector_idx ON public.statutes USING GIN (search_vector);
+
+-- Enable RLS on statutes
+ALTER TABLE public.statutes ENABLE ROW LEVEL SECURITY;
+
+-- Statutes are public reference material
+CREATE POLICY "Anyone can view statutes"
+  ON public.statutes FOR SELECT
+  USING (true);
+
+-- Keyword retrieval for legal-chat. Every word of the query is OR-ed together (a plain
+-- question rarely matches all of its words), and sections still in force rank higher.
+CREATE OR REPLACE FUNCTION public.search_statutes(p_query TEXT, p_match_count INTEGER DEFAULT 5)
+RETURNS TABLE (
+  id TEXT,
+  act TEXT,
+  act_short_name TEXT,
+  section_number TEXT,
+  title TEXT,
+  text TEXT,
+  effective_from DATE,
+  effective_to DATE,
+  rank REAL
+) AS $$
+  WITH query AS (
+    SELECT to_tsquery('simple', string_agg(quote_literal(lexeme), ' | ')) AS q
+    FROM unnest(tsvector_to_array(to_tsvector('english', p_query))) AS lexeme
+  )
+  SELECT
+    s.id, s.act, s.act_short_name, s.section_number, s.title, s.text, s.effective_from, s.effective_to,
+    (ts_rank_cd(s.search_vector, query.q) * CASE WHEN s.effective_to IS NULL THEN 1.5 ELSE 1 END)::REAL AS rank
+  FROM public.statutes s, query
+  WHERE query.q IS NOT NULL AND s.search_vector @@ query.q
+  ORDER BY rank DESC
+  LIMIT p_match_count;
+$$ LANGUAGE sql STABLE SET search_path = public;
+
+-- Statute sections that were retrieved and injected into the prompt for an assistant turn
+ALTER TABLE public.chat_messages
+  ADD COLUMN retrieved_sections TEXT[] NOT NULL DEFAULT '{}';
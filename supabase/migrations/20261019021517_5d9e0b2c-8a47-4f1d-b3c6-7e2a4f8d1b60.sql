@@ -0,0 +1,3 @@
+-- Marks assistant turns that were cut short because the user stopped generation or disconnected
+ALTER TABLE public.chat_messages
+  ADD COLUMN truncated BOOLEAN NOT NULL DEFAULT false;
@@ -0,0 +1,15 @@
+-- Messages form a tree: regenerating an answer or editing a question adds a sibling under the
+-- same parent instead of overwriting, so earlier variants stay navigable
+ALTER TABLE public.chat_messages
+  ADD COLUMN parent_id UUID REFERENCES public.chat_messages(id) ON DELETE CASCADE;
+
+CREATE INDEX chat_messages_parent_id_idx ON public.chat_messages (parent_id);
+
+-- Existing conversations are linear: chain each message to the one before it
+UPDATE public.chat_messages AS m
+SET parent_id = ordered.previous_id
+FROM (
+  SELECT id, LAG(id) OVER (PARTITION BY conversation_id ORDER BY created_at, id) AS previous_id
+  FROM public.chat_messages
+) AS ordered
+WHERE m.id = ordered.id;
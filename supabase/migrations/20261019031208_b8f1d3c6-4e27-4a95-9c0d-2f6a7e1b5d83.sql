@@ -0,0 +1,39 @@
+-- Full-text search over a user's chat history
+ALTER TABLE public.chat_messages
+  ADD COLUMN search_vector TSVECTOR GENERATED ALWAYS AS (to_tsvector('english', content)) STORED;
+
+CREATE INDEX chat_messages_search_vector_idx ON public.chat_messages USING GIN (search_vector);
+
+-- Runs as the caller (SECURITY INVOKER), so the chat_messages/chat_conversations RLS policies
+-- still decide what is visible; the user_id filter just lets the planner skip other users' rows.
+-- Snippets wrap matches in U+E000/U+E001 so the client can highlight them without parsing HTML.
+CREATE OR REPLACE FUNCTION public.search_messages(p_query TEXT, p_limit INTEGER DEFAULT 20)
+RETURNS TABLE (
+  message_id UUID,
+  conversation_id UUID,
+  conversation_title TEXT,
+  role TEXT,
+  snippet TEXT,
+  created_at TIMESTAMPTZ,
+  rank REAL
+) AS $$
+  WITH query AS (
+    SELECT websearch_to_tsquery('english', p_query) AS q
+  )
+  SELECT
+    m.id,
+    m.conversation_id,
+    c.title,
+    m.role,
+    ts_headline(
+      'english', m.content, query.q,
+      format('StartSel=%s, StopSel=%s, MaxWords=30, MinWords=10, MaxFragments=2', chr(57344), chr(57345))
+    ),
+    m.created_at,
+    ts_rank_cd(m.search_vector, query.q)::REAL AS rank
+  FROM public.chat_messages m
+  JOIN public.chat_conversations c ON c.id = m.conversation_id, query
+  WHERE c.user_id = auth.uid() AND m.search_vector @@ query.q
+  ORDER BY rank DESC, m.created_at DESC
+  LIMIT LEAST(GREATEST(p_limit, 1), 50);
+$$ LANGUAGE sql STABLE SET search_path = public;
@@ -0,0 +1,4 @@
+-- One bookmark per saved thing, so the bookmark toggle in the chat can't create duplicates
+CREATE UNIQUE INDEX saved_items_user_item_idx
+  ON public.saved_items (user_id, item_type, item_id)
+  WHERE item_id IS NOT NULL;
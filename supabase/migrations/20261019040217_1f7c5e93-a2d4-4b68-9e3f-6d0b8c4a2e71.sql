@@ -0,0 +1,72 @@
+-- Read-only share links for conversations. The token is the only credential, so it is long
+-- and random; revoking or expiring a link keeps the row for the owner's share list.
+CREATE TABLE public.conversation_shares (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  conversation_id UUID NOT NULL REFERENCES public.chat_conversations(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  token TEXT NOT NULL UNIQUE DEFAULT replace(gen_random_uuid()::TEXT || gen_random_uuid()::TEXT, '-', ''),
+  expires_at TIMESTAMPTZ,
+  revoked_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX conversation_shares_conversation_id_idx ON public.conversation_shares (conversation_id);
+
+-- Enable RLS on conversation_shares
+ALTER TABLE public.conversation_shares ENABLE ROW LEVEL SECURITY;
+
+-- Share policies: owners manage links to their own conversations only
+CREATE POLICY "Users can view own shares"
+  ON public.conversation_shares FOR SELECT
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can share own conversations"
+  ON public.conversation_shares FOR INSERT
+  WITH CHECK (
+    auth.uid() = user_id
+    AND EXISTS (
+      SELECT 1 FROM public.chat_conversations
+      WHERE chat_conversations.id = conversation_id
+      AND chat_conversations.user_id = auth.uid()
+    )
+  );
+
+CREATE POLICY "Users can revoke own shares"
+  ON public.conversation_shares FOR UPDATE
+  USING (auth.uid() = user_id)
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete own shares"
+  ON public.conversation_shares FOR DELETE
+  USING (auth.uid() = user_id);
+
+-- Public read of a shared transcript. SECURITY DEFINER bypasses the ownership RLS on
+-- chat_conversations/chat_messages, so it must check the token itself and return only
+-- that one conversation; NULL for unknown, revoked or expired tokens.
+CREATE OR REPLACE FUNCTION public.get_shared_conversation(p_token TEXT)
+RETURNS JSONB AS $$
+  SELECT jsonb_build_object(
+    'title', c.title,
+    'created_at', c.created_at,
+    'messages', COALESCE((
+      SELECT jsonb_agg(jsonb_build_object(
+        'id', m.id,
+        'parent_id', m.parent_id,
+        'role', m.role,
+        'content', m.content,
+        'retrieved_sections', m.retrieved_sections,
+        'truncated', m.truncated,
+        'created_at', m.created_at
+      ) ORDER BY m.created_at)
+      FROM public.chat_messages m
+      WHERE m.conversation_id = c.id
+    ), '[]'::JSONB)
+  )
+  FROM public.conversation_shares s
+  JOIN public.chat_conversations c ON c.id = s.conversation_id
+  WHERE s.token = p_token
+    AND s.revoked_at IS NULL
+    AND (s.expires_at IS NULL OR s.expires_at > NOW());
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+GRANT EXECUTE ON FUNCTION public.get_shared_conversation(TEXT) TO anon, authenticated;
@@ -0,0 +1,5 @@
+-- Rolling summary of the older turns that no longer fit legal-chat's context window.
+-- It is only valid for histories containing summary_through_message_id (branches differ).
+ALTER TABLE public.chat_conversations
+  ADD COLUMN summary TEXT,
+  ADD COLUMN summary_through_message_id UUID REFERENCES public.chat_messages(id) ON DELETE SET NULL;
@@ -0,0 +1,3 @@
+-- Set when the user renames a conversation, so generated titles never overwrite it
+ALTER TABLE public.chat_conversations
+  ADD COLUMN title_is_custom BOOLEAN NOT NULL DEFAULT false;
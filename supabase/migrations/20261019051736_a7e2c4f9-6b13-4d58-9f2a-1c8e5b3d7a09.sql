@@ -0,0 +1,235 @@
+-- Legal forms and document templates. `fields` describes the inputs
+-- ([{ "name", "label", "type": "text" | "textarea" | "date" | "number", "required", "placeholder", "help" }])
+-- and `body` is plain text with {{name}} placeholders for them.
+CREATE TABLE public.legal_templates (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  slug TEXT NOT NULL UNIQUE,
+  title TEXT NOT NULL,
+  description TEXT NOT NULL,
+  category TEXT NOT NULL,
+  jurisdiction TEXT NOT NULL DEFAULT 'All India',
+  language TEXT NOT NULL DEFAULT 'en',
+  fields JSONB NOT NULL DEFAULT '[]',
+  body TEXT NOT NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX legal_templates_category_idx ON public.legal_templates (category);
+
+-- Enable RLS on legal_templates
+ALTER TABLE public.legal_templates ENABLE ROW LEVEL SECURITY;
+
+-- Templates are public reference material
+CREATE POLICY "Anyone can view legal templates"
+  ON public.legal_templates FOR SELECT
+  USING (true);
+
+INSERT INTO public.legal_templates (slug, title, description, category, fields, body) VALUES
+(
+  'rti-application',
+  'RTI application',
+  'Request information from a government office under Section 6(1) of the Right to Information Act, 2005.',
+  'Right to Information',
+  '[
+    {"name": "applicant_name", "label": "Your full name", "type": "text", "required": true},
+    {"name": "applicant_address", "label": "Your address", "type": "textarea", "required": true},
+    {"name": "public_authority", "label": "Public authority and address", "type": "textarea", "required": true, "placeholder": "Office of the Municipal Commissioner, ..."},
+    {"name": "information_sought", "label": "Information you want", "type": "textarea", "required": true, "help": "List each item as a separate, specific question."},
+    {"name": "period", "label": "Period the information relates to", "type": "text", "placeholder": "01/04/2024 to 31/03/2025"},
+    {"name": "fee_details", "label": "How you paid the Rs. 10 fee", "type": "text", "required": true, "placeholder": "Indian Postal Order No. ..."},
+    {"name": "place", "label": "Place", "type": "text", "required": true},
+    {"name": "date", "label": "Date", "type": "date", "required": true}
+  ]',
+  $body$To,
+The Public Information Officer,
+{{public_authority}}
+
+Subject: Application for information under Section 6(1) of the Right to Information Act, 2005
+
+Sir/Madam,
+
+I, {{applicant_name}}, a citizen of India, request the following information under the Right to Information Act, 2005:
+
+{{information_sought}}
+
+Period to which the information relates: {{period}}
+
+I have paid the application fee of Rs. 10 by {{fee_details}}.
+
+Please provide the information within 30 days as required by Section 7(1) of the Act. If any of it is held by another public authority, please transfer that part of this application under Section 6(3) and inform me.
+
+Name: {{applicant_name}}
+Address: {{applicant_address}}
+
+Place: {{place}}
+Date: {{date}}
+
+(Signature)$body$
+),
+(
+  'consumer-complaint',
+  'Consumer complaint',
+  'Complaint to a Consumer Commission under Section 35 of the Consumer Protection Act, 2019 for defective goods or deficient services.',
+  'Consumer',
+  '[
+    {"name": "commission", "label": "Consumer Commission", "type": "text", "required": true, "placeholder": "District Consumer Disputes Redressal Commission, Pune"},
+    {"name": "complainant_name", "label": "Your full name", "type": "text", "required": true},
+    {"name": "complainant_address", "label": "Your address", "type": "textarea", "required": true},
+    {"name": "opposite_party", "label": "Seller or service provider (name and address)", "type": "textarea", "required": true},
+    {"name": "purchase_details", "label": "What you bought or hired, when, and for how much", "type": "textarea", "required": true},
+    {"name": "grievance", "label": "What went wrong", "type": "textarea", "required": true},
+    {"name": "relief", "label": "What you want the Commission to order", "type": "textarea", "required": true, "placeholder": "Refund of Rs. ..., compensation of Rs. ... and litigation costs"},
+    {"name": "place", "label": "Place", "type": "text", "required": true},
+    {"name": "date", "label": "Date", "type": "date", "required": true}
+  ]',
+  $body$BEFORE THE {{commission}}
+
+In the matter of:
+{{complainant_name}}
+{{complainant_address}}
+... Complainant
+
+Versus
+
+{{opposite_party}}
+... Opposite Party
+
+COMPLAINT UNDER SECTION 35 OF THE CONSUMER PROTECTION ACT, 2019
+
+1. The Complainant is a consumer within the meaning of Section 2(7) of the Consumer Protection Act, 2019.
+
+2. Details of the transaction:
+{{purchase_details}}
+
+3. Grievance:
+{{grievance}}
+
+4. The above amounts to a defect in goods and/or deficiency in service under Sections 2(10) and 2(11) of the Act. The complaint is filed within two years of the cause of action, as required by Section 69, and the consideration paid is within the pecuniary jurisdiction of this Commission.
+
+5. Relief sought:
+{{relief}}
+
+VERIFICATION
+I, {{complainant_name}}, the Complainant, state that the contents of this complaint are true to my knowledge and belief.
+
+Place: {{place}}
+Date: {{date}}
+
+(Signature of Complainant)$body$
+),
+(
+  'legal-notice',
+  'Legal notice (general demand)',
+  'A formal written demand to a person or business before you go to court, giving them time to comply.',
+  'Notices',
+  '[
+    {"name": "sender_name", "label": "Your full name", "type": "text", "required": true},
+    {"name": "sender_address", "label": "Your address", "type": "textarea", "required": true},
+    {"name": "recipient_name", "label": "Recipient''s name", "type": "text", "required": true},
+    {"name": "recipient_address", "label": "Recipient''s address", "type": "textarea", "required": true},
+    {"name": "facts", "label": "What happened", "type": "textarea", "required": true},
+    {"name": "demand", "label": "What you demand", "type": "textarea", "required": true},
+    {"name": "compliance_days", "label": "Days given to comply", "type": "number", "required": true, "placeholder": "15"},
+    {"name": "date", "label": "Date", "type": "date", "required": true}
+  ]',
+  $body$LEGAL NOTICE
+
+Date: {{date}}
+
+To,
+{{recipient_name}}
+{{recipient_address}}
+
+From,
+{{sender_name}}
+{{sender_address}}
+
+Sir/Madam,
+
+1. {{facts}}
+
+2. Despite my requests, you have failed to resolve the matter.
+
+3. I therefore call upon you to {{demand}} within {{compliance_days}} days of receiving this notice.
+
+4. If you fail to do so, I will be constrained to initiate appropriate civil and/or criminal proceedings against you, at your risk as to costs and consequences.
+
+A copy of this notice has been retained for further action.
+
+(Signature)
+{{sender_name}}$body$
+),
+(
+  'general-affidavit',
+  'General affidavit',
+  'A sworn statement of facts, for use before a Notary or Oath Commissioner (e.g. change of address, name mismatch, loss of documents).',
+  'Affidavits',
+  '[
+    {"name": "deponent_name", "label": "Your full name", "type": "text", "required": true},
+    {"name": "relation", "label": "Son/daughter/spouse of", "type": "text", "required": true},
+    {"name": "age", "label": "Age", "type": "number", "required": true},
+    {"name": "deponent_address", "label": "Your address", "type": "textarea", "required": true},
+    {"name": "statements", "label": "Facts you are declaring", "type": "textarea", "required": true, "help": "One fact per line; they are numbered in the affidavit."},
+    {"name": "purpose", "label": "Purpose of the affidavit", "type": "text", "required": true},
+    {"name": "place", "label": "Place", "type": "text", "required": true},
+    {"name": "date", "label": "Date", "type": "date", "required": true}
+  ]',
+  $body$AFFIDAVIT
+
+I, {{deponent_name}}, {{relation}}, aged {{age}} years, residing at {{deponent_address}}, do hereby solemnly affirm and declare as under:
+
+{{statements}}
+
+This affidavit is made for the purpose of {{purpose}}.
+
+DEPONENT
+
+VERIFICATION
+Verified at {{place}} on {{date}} that the contents of the above affidavit are true and correct to my knowledge and belief, and nothing material has been concealed.
+
+DEPONENT$body$
+),
+(
+  'police-complaint',
+  'Police complaint for registering an FIR',
+  'Written complaint to the Station House Officer about a cognizable offence, asking for an FIR under Section 173 of the BNSS (formerly Section 154 CrPC).',
+  'Police',
+  '[
+    {"name": "police_station", "label": "Police station", "type": "text", "required": true},
+    {"name": "complainant_name", "label": "Your full name", "type": "text", "required": true},
+    {"name": "complainant_address", "label": "Your address and phone number", "type": "textarea", "required": true},
+    {"name": "incident_datetime", "label": "Date and time of the incident", "type": "text", "required": true},
+    {"name": "incident_place", "label": "Place of the incident", "type": "text", "required": true},
+    {"name": "accused", "label": "Accused (names/descriptions, if known)", "type": "textarea"},
+    {"name": "incident_details", "label": "What happened", "type": "textarea", "required": true},
+    {"name": "witnesses", "label": "Witnesses and evidence", "type": "textarea"},
+    {"name": "date", "label": "Date", "type": "date", "required": true}
+  ]',
+  $body$To,
+The Station House Officer,
+{{police_station}}
+
+Subject: Complaint for registration of FIR under Section 173 of the Bharatiya Nagarik Suraksha Sanhita, 2023
+
+Sir/Madam,
+
+I, {{complainant_name}}, residing at {{complainant_address}}, wish to report the following:
+
+Date and time of incident: {{incident_datetime}}
+Place of incident: {{incident_place}}
+Accused: {{accused}}
+
+Details of the incident:
+{{incident_details}}
+
+Witnesses and evidence:
+{{witnesses}}
+
+The above facts disclose a cognizable offence. I request you to register an FIR and investigate the matter, and to give me a free copy of the FIR as provided under Section 173(2) of the BNSS.
+
+Date: {{date}}
+
+Yours faithfully,
+{{complainant_name}}$body$
+);
@@ -0,0 +1,24 @@
+-- Drafted legal notices are kept as saved items, with the draft and its dispatch
+-- tracking in `data`, so the user can come back to record delivery and deadlines.
+ALTER TABLE public.saved_items
+  DROP CONSTRAINT saved_items_item_type_check,
+  ADD CONSTRAINT saved_items_item_type_check CHECK (item_type IN ('chat', 'form', 'topic', 'notice')),
+  ADD COLUMN data JSONB,
+  ADD COLUMN updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW();
+
+CREATE TRIGGER update_saved_items_updated_at
+  BEFORE UPDATE ON public.saved_items
+  FOR EACH ROW EXECUTE FUNCTION public.handle_updated_at();
+
+CREATE POLICY "Users can update own saved items"
+  ON public.saved_items FOR UPDATE
+  USING (auth.uid() = user_id)
+  WITH CHECK (auth.uid() = user_id);
+
+-- The legal notice template now opens the scenario-based notice builder
+UPDATE public.legal_templates
+SET
+  title = 'Legal notice',
+  description = 'Demand notice for unpaid salary, a security deposit, a bounced cheque (Section 138, Negotiable Instruments Act) or any other claim, with tracking of when it was sent and when the reply is due.',
+  updated_at = NOW()
+WHERE slug = 'legal-notice';
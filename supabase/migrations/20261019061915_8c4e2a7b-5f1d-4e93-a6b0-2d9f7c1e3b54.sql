@@ -0,0 +1,34 @@
+-- legal-chat suggests templates and extracts values for their fields from the conversation.
+-- The guided generators take more than the original fields, so list those inputs too.
+UPDATE public.legal_templates
+SET
+  fields = '[
+    {"name": "scenario", "label": "Type of notice", "type": "text", "required": true, "help": "One of: salary, deposit, cheque, general"},
+    {"name": "sender_name", "label": "Your full name", "type": "text", "required": true},
+    {"name": "sender_address", "label": "Your address", "type": "textarea", "required": true},
+    {"name": "recipient_name", "label": "Recipient''s name", "type": "text", "required": true},
+    {"name": "recipient_address", "label": "Recipient''s address", "type": "textarea", "required": true},
+    {"name": "amount", "label": "Amount claimed (Rs.)", "type": "number"},
+    {"name": "designation", "label": "Job title (salary)", "type": "text"},
+    {"name": "salary_period", "label": "Unpaid period (salary)", "type": "text"},
+    {"name": "premises_address", "label": "Rented premises (deposit)", "type": "textarea"},
+    {"name": "vacated_on", "label": "Date possession was handed back (deposit)", "type": "date"},
+    {"name": "cheque_number", "label": "Cheque number (cheque)", "type": "text"},
+    {"name": "cheque_date", "label": "Date on the cheque (cheque)", "type": "date"},
+    {"name": "bank_name", "label": "Bank the cheque is drawn on (cheque)", "type": "text"},
+    {"name": "liability", "label": "Debt the cheque was given for (cheque)", "type": "text"},
+    {"name": "return_memo_received_on", "label": "Date the return memo was received (cheque)", "type": "date"},
+    {"name": "facts", "label": "What happened (general)", "type": "textarea"},
+    {"name": "demand", "label": "What you demand (general)", "type": "textarea"}
+  ]',
+  updated_at = NOW()
+WHERE slug = 'legal-notice';
+
+UPDATE public.legal_templates
+SET
+  fields = fields || '[
+    {"name": "purchase_date", "label": "Date of purchase", "type": "date"},
+    {"name": "consideration_paid", "label": "Amount paid (Rs.)", "type": "number"}
+  ]'::jsonb,
+  updated_at = NOW()
+WHERE slug = 'consumer-complaint';
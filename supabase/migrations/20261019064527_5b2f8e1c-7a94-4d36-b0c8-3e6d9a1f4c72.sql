@@ -0,0 +1,4 @@
+-- Extra data legal-chat works out for a message after it is saved, such as the template
+-- the answer offered to draft ({"suggestion": {...}}), so it survives a reload.
+ALTER TABLE public.chat_messages
+  ADD COLUMN metadata JSONB NOT NULL DEFAULT '{}'::jsonb;
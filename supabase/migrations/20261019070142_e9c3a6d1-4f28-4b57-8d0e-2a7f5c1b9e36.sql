@@ -0,0 +1,70 @@
+-- Owners could repoint a share at someone else's conversation: the update policy only checked
+-- the share's owner. Re-check conversation ownership and only let clients change revoked_at.
+DROP POLICY "Users can revoke own shares" ON public.conversation_shares;
+
+CREATE POLICY "Users can revoke own shares"
+  ON public.conversation_shares FOR UPDATE
+  USING (auth.uid() = user_id)
+  WITH CHECK (
+    auth.uid() = user_id
+    AND EXISTS (
+      SELECT 1 FROM public.chat_conversations
+      WHERE chat_conversations.id = conversation_id
+      AND chat_conversations.user_id = auth.uid()
+    )
+  );
+
+REVOKE UPDATE ON public.conversation_shares FROM anon, authenticated;
+GRANT UPDATE (revoked_at) ON public.conversation_shares TO authenticated;
+
+-- Shared links show the conversation as it reads now: from the first question, the newest
+-- child at each level (what the owner sees by default), without earlier variants or
+-- questions that were edited away.
+CREATE OR REPLACE FUNCTION public.get_shared_conversation(p_token TEXT)
+RETURNS JSONB AS $$
+  WITH RECURSIVE shared AS (
+    SELECT c.id, c.title, c.created_at
+    FROM public.conversation_shares s
+    JOIN public.chat_conversations c ON c.id = s.conversation_id
+    WHERE s.token = p_token
+      AND s.revoked_at IS NULL
+      AND (s.expires_at IS NULL OR s.expires_at > NOW())
+  ),
+  active_path AS (
+    (
+      SELECT m.id, m.parent_id, m.role, m.content, m.retrieved_sections, m.truncated, m.created_at
+      FROM public.chat_messages m
+      JOIN shared ON shared.id = m.conversation_id
+      WHERE m.parent_id IS NULL
+      ORDER BY m.created_at DESC
+      LIMIT 1
+    )
+    UNION ALL
+    SELECT child.id, child.parent_id, child.role, child.content, child.retrieved_sections, child.truncated, child.created_at
+    FROM active_path p
+    CROSS JOIN LATERAL (
+      SELECT m.*
+      FROM public.chat_messages m
+      WHERE m.parent_id = p.id
+      ORDER BY m.created_at DESC
+      LIMIT 1
+    ) child
+  )
+  SELECT jsonb_build_object(
+    'title', shared.title,
+    'created_at', shared.created_at,
+    'messages', COALESCE((
+      SELECT jsonb_agg(jsonb_build_object(
+        'id', m.id,
+        'parent_id', m.parent_id,
+        'role', m.role,
+        'content', m.content,
+        'retrieved_sections', m.retrieved_sections,
+        'truncated', m.truncated,
+        'created_at', m.created_at
+      ) ORDER BY m.created_at)
+      FROM active_path m
+    ), '[]'::JSONB)
+  )
+  FROM shared;
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;